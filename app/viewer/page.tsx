@@ -2,34 +2,131 @@
 
 import type React from "react"
 
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Upload, X, ChevronRight, Info } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { KmlViewer } from "@/components/kml-viewer"
-import { KmlElementsList } from "@/components/kml-elements-list"
+import { KmlElementsList, type ElementFilters } from "@/components/kml-elements-list"
 import { KmlElementDetails } from "@/components/kml-element-details"
-import { parseKml } from "@/lib/kml-parser"
-import type { KmlData, KmlElement } from "@/lib/types"
+import {
+  createDataLayer,
+  findElementById,
+  findElementLayer,
+  mergeDataLayers,
+  moveDataLayer,
+  type DataLayer,
+} from "@/lib/data-layers"
+import { flattenFolders, getInitiallyHiddenFolderIds } from "@/lib/kml-folders"
+import { FILE_ACCEPT, getFileFormat, isSupportedFile, type FileFormat } from "@/lib/parse-file"
+import { parseFileInWorker, type ParseJob } from "@/lib/parse-file-in-worker"
+import type { TimeRange } from "@/lib/time-filter"
+import {
+  DEFAULT_BASE_LAYER,
+  MBTILES_BASE_LAYER,
+  loadBaseLayerSelection,
+  resolveBaseLayer,
+  saveBaseLayerSelection,
+  type BaseLayerSelection,
+} from "@/lib/base-layers"
+import { calculateBounds } from "@/lib/geo"
+import { openMbtiles, type MbtilesSource } from "@/lib/mbtiles"
+import { registerServiceWorker } from "@/lib/offline-tiles"
+import { formatUrlState, parseUrlState, type UrlState } from "@/lib/url-state"
+import {
+  getRecentFile,
+  listRecentFiles,
+  loadMbtilesFile,
+  loadSession,
+  removeRecentFile,
+  saveMbtilesFile,
+  saveRecentFile,
+  saveSession,
+  type RecentFile,
+} from "@/lib/recent-files"
+import type { CsvImportOptions } from "@/lib/csv-parser"
+import type { WmsLayer } from "@/lib/wms"
+import type { KmlData, KmlElement, MapView, ParseProgress } from "@/lib/types"
 import { FileInfoPanel } from "@/components/file-info-panel"
+import { ExportMenu } from "@/components/export-menu"
+import { CsvImportDialog } from "@/components/csv-import-dialog"
+import { LayerManager } from "@/components/layer-manager"
+import { FileDropZone } from "@/components/file-drop-zone"
+import { WmsLayerDialog } from "@/components/wms-layer-dialog"
+import { OfflineTilesDialog } from "@/components/offline-tiles-dialog"
 import { useMobile } from "@/hooks/use-mobile"
 import { MobileHeader } from "@/components/mobile-header"
+import { TimeSlider } from "@/components/time-slider"
+
+// Select value for the elements of every layer (Radix selects don't accept a null value)
+const ALL_LAYERS = "all"
+
+interface LoadFileOptions {
+  csvImport?: CsvImportOptions // CSV only: read the file with these columns instead of asking for them
+  layer?: Partial<Pick<DataLayer, "visible" | "opacity">> // Initial state of the layer, e.g. from a restored session
+}
 
 export default function ViewerPage() {
-  const [kmlData, setKmlData] = useState<KmlData | null>(null)
+  const [dataLayers, setDataLayers] = useState<DataLayer[]>([]) // Top layer first
+  // Layers are created after parsing, when the state seen by the handler that started it may be outdated
+  const dataLayersRef = useRef<DataLayer[]>([])
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null) // Scope of the elements list, null for all
+  const [focusLayerRequest, setFocusLayerRequest] = useState<{ layerId: string } | null>(null)
   const [isLoading, setIsLoading] = useState(false)
+  const [loadingProgress, setLoadingProgress] = useState<ParseProgress | null>(null)
+  const parseJobRef = useRef<ParseJob | null>(null)
+  const parseQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const pendingParsesRef = useRef(0)
+  const loadGenerationRef = useRef(0) // Increased when the loading is cancelled, dropping the files queued before
+  const isUnmountedRef = useRef(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedElement, setSelectedElement] = useState<KmlElement | null>(null)
+  const [filteredElements, setFilteredElements] = useState<KmlElement[] | null>(null)
+  const [hiddenFolderIds, setHiddenFolderIds] = useState<Set<string>>(new Set())
+  const [overlayOpacities, setOverlayOpacities] = useState<Record<string, number>>({})
+  const [timeRange, setTimeRange] = useState<TimeRange | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const [fileName, setFileName] = useState<string | null>(null)
-  const [fileSize, setFileSize] = useState<number | null>(null)
-  const [fileType, setFileType] = useState<"kml" | "kmz" | null>(null)
+  const [pendingCsvFiles, setPendingCsvFiles] = useState<File[]>([])
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([])
+  const [isSessionRestored, setIsSessionRestored] = useState(false)
+  const [viewRequest, setViewRequest] = useState<MapView | null>(null)
+  const mapViewRef = useRef<MapView | null>(null)
+  const [elementFilters, setElementFilters] = useState<ElementFilters>({ searchQuery: "", typeFilter: null })
+  const [timeRangeRequest, setTimeRangeRequest] = useState<TimeRange | null>(null)
+  const [baseLayer, setBaseLayer] = useState<BaseLayerSelection>(DEFAULT_BASE_LAYER)
+  const [wmsLayers, setWmsLayers] = useState<WmsLayer[]>([]) // Top layer first
+  const [isWmsDialogOpen, setIsWmsDialogOpen] = useState(false)
+  const [mbtiles, setMbtiles] = useState<MbtilesSource | null>(null)
+  const [isOfflineDialogOpen, setIsOfflineDialogOpen] = useState(false)
+  // State of the link the page was opened with; the element is kept until its file is loaded
+  const linkedStateRef = useRef<UrlState>({})
 
   const { isMobile, viewportWidth } = useMobile()
   const [sidebarOpen, setSidebarOpen] = useState(!isMobile)
   const [activeTab, setActiveTab] = useState<string>("map")
 
+  // The data of a layer never changes after loading, so the merge only depends on which layers there are.
+  // Keying on the ids keeps the elements list (and its expanded folders) intact while layers are faded or hidden.
+  const dataLayerIds = dataLayers.map((dataLayer) => dataLayer.id).join()
+  const allLayersData = useMemo(
+    () => (dataLayers.length > 0 ? mergeDataLayers(dataLayers) : null),
+    [dataLayerIds],
+  )
+  const activeLayer = dataLayers.find((dataLayer) => dataLayer.id === activeLayerId) ?? null
+  dataLayersRef.current = dataLayers
+  // Data of the elements list and exports: the layer it is scoped to, or every layer
+  const kmlData: KmlData | null = activeLayer ? activeLayer.kmlData : allLayersData
+  // Layer described in the file tab
+  const fileLayer = activeLayer ?? dataLayers[0] ?? null
+  const exportFileName = activeLayer?.name ?? (dataLayers.length === 1 ? dataLayers[0].name : null)
+  // Area whose tiles can be downloaded for offline use
+  const offlineBounds = useMemo(
+    () => (isOfflineDialogOpen && allLayersData ? (calculateBounds(allLayersData.elements) ?? null) : null),
+    [isOfflineDialogOpen, allLayersData],
+  )
+
   // Effect to resize map when activeTab changes
   useEffect(() => {
     // Small delay to ensure DOM has updated
@@ -41,61 +138,414 @@ export default function ViewerPage() {
     return () => clearTimeout(timer)
   }, [activeTab, sidebarOpen])
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
+  // Stop parsing when leaving the page
+  useEffect(() => {
+    isUnmountedRef.current = false
+    return () => {
+      isUnmountedRef.current = true
+      parseJobRef.current?.cancel()
+    }
+  }, [])
+
+  // Element ids must not collide with the ones of the loaded layers
+  const createLayer = (file: File, fileType: FileFormat, parsedData: KmlData) =>
+    createDataLayer(file, fileType, parsedData, dataLayersRef.current)
 
+  // New files go on top of the others
+  // The ref is updated right away, for a layer created before the next render (see createLayer)
+  const addDataLayer = (dataLayer: DataLayer) => {
+    dataLayersRef.current = [dataLayer, ...dataLayersRef.current]
+    setDataLayers((current) => [dataLayer, ...current])
+    setHiddenFolderIds(
+      (current) => new Set([...current, ...getInitiallyHiddenFolderIds(dataLayer.kmlData.folders)]),
+    )
+  }
+
+  // Keep a loaded file in the browser for the recent files list and the next visit
+  // Storage can be full or unavailable (e.g. private browsing), which only costs the recent files.
+  const rememberFile = (file: File, dataLayer: DataLayer, csvImport?: CsvImportOptions) => {
+    saveRecentFile(file, dataLayer.fileType, dataLayer.kmlData.elements.length, csvImport)
+      .then(listRecentFiles)
+      .then(setRecentFiles)
+      .catch((err) => console.warn("Could not store the file in the browser:", err))
+  }
+
+  // Files are parsed one at a time, in the order they were chosen, so large files don't compete for memory
+  // Resolves with the new layer, or null if the file could not be loaded.
+  const loadFile = (file: File, fileType: FileFormat, options: LoadFileOptions = {}): Promise<DataLayer | null> => {
+    pendingParsesRef.current++
     setIsLoading(true)
-    setError(null)
-    setFileName(file.name)
-    setFileSize(file.size)
-    setFileType(file.name.toLowerCase().endsWith(".kmz") ? "kmz" : "kml")
+    const generation = loadGenerationRef.current
+    const isCancelled = () => isUnmountedRef.current || generation !== loadGenerationRef.current
 
-    try {
-      const isKmz = file.name.toLowerCase().endsWith(".kmz")
-
-      if (isKmz) {
-        // Handle KMZ file
-        try {
-          const { parseKmz } = await import("@/lib/kmz-parser")
-          const parsedData = await parseKmz(file)
-          setKmlData(parsedData)
-          setSelectedElement(null)
-        } catch (err) {
-          console.error("KMZ parsing error:", err)
-          setError(err instanceof Error ? err.message : "Failed to parse KMZ file. Please check the file format.")
-        }
-      } else {
-        // Handle KML file
-        const reader = new FileReader()
-
-        reader.onload = async (e) => {
-          try {
-            const kmlString = e.target?.result as string
-            const parsedData = await parseKml(kmlString)
-            setKmlData(parsedData)
-            setSelectedElement(null)
-          } catch (err) {
-            console.error("KML parsing error:", err)
-            setError(err instanceof Error ? err.message : "Failed to parse KML file. Please check the file format.")
-          }
+    const loaded = parseQueueRef.current.then(async () => {
+      try {
+        if (isCancelled()) return null
+
+        const job = parseFileInWorker(file, setLoadingProgress, options.csvImport)
+        parseJobRef.current = job
+        setLoadingProgress(null)
+
+        const dataLayer = { ...createLayer(file, fileType, await job.promise), ...options.layer }
+        addDataLayer(dataLayer)
+        rememberFile(file, dataLayer, options.csvImport)
+        return dataLayer
+      } catch (err) {
+        // Cancelled by the user or when leaving the page
+        if (isCancelled()) return null
+
+        console.error("File parsing error:", err)
+        setError(
+          `${file.name}: ${err instanceof Error ? err.message : "Failed to parse the file. Please check the file format."}`,
+        )
+        return null
+      } finally {
+        parseJobRef.current = null
+        pendingParsesRef.current--
+        if (pendingParsesRef.current === 0) {
+          setIsLoading(false)
         }
+      }
+    })
+
+    parseQueueRef.current = loaded.then(() => undefined)
+    return loaded
+  }
+
+  // Serve the viewer and the downloaded tiles without a connection
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
+  // Reopen the MBTiles file of the last visit when it is the base layer
+  useEffect(() => {
+    if (baseLayer.id !== MBTILES_BASE_LAYER || mbtiles) return
 
-        reader.onerror = (e) => {
-          console.error("File reading error:", e)
-          setError("Failed to read the file.")
+    let isCancelled = false
+    loadMbtilesFile()
+      .then((file) => (file ? openMbtiles(file) : null))
+      .then((source) => {
+        if (isCancelled) {
+          source?.close()
+        } else if (source) {
+          setMbtiles(source)
         }
+      })
+      .catch((err) => console.warn("Could not reopen the MBTiles file:", err))
+
+    return () => {
+      isCancelled = true
+    }
+  }, [baseLayer.id, mbtiles])
+
+  // The database of a replaced MBTiles file is closed once its layer is gone
+  useEffect(() => {
+    return () => mbtiles?.close()
+  }, [mbtiles])
 
-        reader.readAsText(file)
+  // Apply the state of a shared link, and the base layer chosen last time unless the link has one
+  useEffect(() => {
+    const linkedState = parseUrlState(window.location.hash)
+    linkedStateRef.current = linkedState
+
+    setBaseLayer(linkedState.baseLayer ?? loadBaseLayerSelection())
+
+    if (linkedState.view) {
+      mapViewRef.current = linkedState.view
+      setViewRequest(linkedState.view)
+    }
+    setElementFilters({ searchQuery: linkedState.search ?? "", typeFilter: linkedState.type ?? null })
+    setTimeRangeRequest(linkedState.time ?? null)
+  }, [])
+
+  // Select the linked element once its file is loaded, going back to the linked view the new layer was fitted over
+  useEffect(() => {
+    const { element: elementId, view } = linkedStateRef.current
+    const element = elementId ? findElementById(dataLayers, elementId) : undefined
+    if (!element) return
+
+    linkedStateRef.current = { ...linkedStateRef.current, element: undefined }
+    setSelectedElement(element)
+    if (view) {
+      setViewRequest({ ...view })
+    }
+  }, [dataLayers])
+
+  // Reopen the files of the last visit, with the same selection and map view
+  // A shared link takes precedence over the selection and view of the session.
+  useEffect(() => {
+    let isCancelled = false
+    const hasLinkedElement = !!linkedStateRef.current.element
+    const hasLinkedView = !!linkedStateRef.current.view
+
+    const restoreSession = async () => {
+      const storedFiles = await listRecentFiles()
+      const session = await loadSession()
+      if (isCancelled) return
+
+      setRecentFiles(storedFiles)
+      if (!session) return
+
+      if (!hasLinkedView) {
+        mapViewRef.current = session.mapView
+      }
+      const files = await Promise.all(session.layers.map(({ fileId }) => getRecentFile(fileId)))
+      if (isCancelled) return
+
+      // Each loaded layer goes on top of the others, so the bottom layer is loaded first
+      const loading: Promise<DataLayer | null>[] = session.layers.map(() => Promise.resolve(null))
+      for (let index = session.layers.length - 1; index >= 0; index--) {
+        const file = files[index]
+        const { fileId, visible, opacity } = session.layers[index]
+        if (!file) continue // Removed from the recent files since
+
+        loading[index] = loadFile(file, getFileFormat(file.name), {
+          csvImport: storedFiles.find((recentFile) => recentFile.id === fileId)?.csvImport,
+          layer: { visible, opacity },
+        })
+      }
+
+      const restoredLayers = await Promise.all(loading)
+      if (isCancelled) return
+
+      if (session.activeLayerIndex !== null) {
+        setActiveLayerId(restoredLayers[session.activeLayerIndex]?.id ?? null)
+      }
+      if (session.selectedElement && !hasLinkedElement) {
+        const { layerIndex, elementIndex } = session.selectedElement
+        setSelectedElement(restoredLayers[layerIndex]?.kmlData.elements[elementIndex] ?? null)
+      }
+      if (session.mapView && !hasLinkedView) {
+        setViewRequest(session.mapView)
       }
+    }
+
+    restoreSession()
+      .catch((err) => console.warn("Could not restore the last session:", err))
+      .finally(() => {
+        if (!isCancelled) setIsSessionRestored(true)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [])
+
+  // Store what is on screen, once the last session has been restored so it isn't overwritten while loading
+  const storeSession = () => {
+    if (!isSessionRestored) return
+
+    const selectedLayer = selectedElement ? findElementLayer(dataLayers, selectedElement) : undefined
+    saveSession({
+      layers: dataLayers.map(({ fileId, visible, opacity }) => ({ fileId, visible, opacity })),
+      activeLayerIndex: activeLayer ? dataLayers.indexOf(activeLayer) : null,
+      selectedElement:
+        selectedLayer && selectedElement
+          ? {
+              layerIndex: dataLayers.indexOf(selectedLayer),
+              elementIndex: selectedLayer.kmlData.elements.indexOf(selectedElement),
+            }
+          : null,
+      mapView: mapViewRef.current,
+    }).catch((err) => console.warn("Could not store the session:", err))
+  }
+
+  useEffect(storeSession, [dataLayers, activeLayerId, selectedElement, isSessionRestored])
+
+  // What a link to the viewer shows: the current view and filters, and the given (or selected) element
+  const getUrlState = (element = selectedElement): UrlState => {
+    const timeExtent = allLayersData?.timeExtent
+    const isTimeFiltered =
+      !!timeRange && !!timeExtent && (timeRange.begin > timeExtent.begin || timeRange.end < timeExtent.end)
+
+    return {
+      view: mapViewRef.current ?? undefined,
+      element: element?.id ?? linkedStateRef.current.element,
+      search: elementFilters.searchQuery || undefined,
+      type: elementFilters.typeFilter ?? undefined,
+      time: isTimeFiltered ? timeRange : undefined,
+      // An MBTiles file is only in this browser
+      baseLayer: baseLayer.id === DEFAULT_BASE_LAYER.id || baseLayer.id === MBTILES_BASE_LAYER ? undefined : baseLayer,
+    }
+  }
+
+  // Keep the URL in sync, so the address bar can be shared at any time
+  // Waits for the session to be restored, so a shared link isn't replaced while its files load.
+  const updateUrl = () => {
+    if (!isSessionRestored) return
+
+    const url = `${window.location.pathname}${window.location.search}${formatUrlState(getUrlState())}`
+    window.history.replaceState(null, "", url)
+  }
+
+  useEffect(updateUrl, [dataLayers, selectedElement, elementFilters, timeRange, baseLayer, isSessionRestored])
+
+  const handleMapViewChange = (view: MapView) => {
+    mapViewRef.current = view
+    storeSession()
+    updateUrl()
+  }
+
+  const handleBaseLayerChange = (selection: BaseLayerSelection) => {
+    setBaseLayer(selection)
+    saveBaseLayerSelection(selection)
+  }
+
+  const handleMbtilesOpen = async (file: File) => {
+    setError(null)
+    try {
+      const source = await openMbtiles(file)
+      setMbtiles(source)
+      handleBaseLayerChange({ id: MBTILES_BASE_LAYER })
+      saveMbtilesFile(file).catch((err) => console.warn("Could not store the MBTiles file:", err))
     } catch (err) {
-      console.error("File upload error:", err)
-      setError(err instanceof Error ? err.message : "An unexpected error occurred.")
-    } finally {
-      setIsLoading(false)
+      console.error("Error opening MBTiles file:", err)
+      setError(`${file.name}: ${err instanceof Error ? err.message : "Failed to open the MBTiles file"}`)
     }
   }
 
+  const handleElementLinkCopy = (element: KmlElement) => {
+    const { origin, pathname, search } = window.location
+    return navigator.clipboard.writeText(`${origin}${pathname}${search}${formatUrlState(getUrlState(element))}`)
+  }
+
+  const handleRecentFileOpen = async (recentFile: RecentFile) => {
+    setError(null)
+    try {
+      const file = await getRecentFile(recentFile.id)
+      if (!file) throw new Error("The file is no longer stored in the browser")
+
+      loadFile(file, recentFile.fileType, { csvImport: recentFile.csvImport })
+    } catch (err) {
+      console.error("Error opening recent file:", err)
+      setError(`${recentFile.name}: ${err instanceof Error ? err.message : "Failed to open the file"}`)
+    }
+  }
+
+  const handleRecentFileRemove = (fileId: string) => {
+    removeRecentFile(fileId)
+      .then(listRecentFiles)
+      .then(setRecentFiles)
+      .catch((err) => console.warn("Could not remove the recent file:", err))
+  }
+
+  // Stop the file being parsed, and skip the ones waiting for it
+  const handleLoadingCancel = () => {
+    loadGenerationRef.current++
+    parseJobRef.current?.cancel()
+  }
+
+  // Files chosen with the upload button, dropped on the page or pasted
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return
+
+    setError(null)
+
+    // MBTiles files are base maps rather than data
+    const isMbtilesFile = (file: File) => file.name.toLowerCase().endsWith(".mbtiles")
+    const mbtilesFile = files.find(isMbtilesFile)
+    if (mbtilesFile) {
+      handleMbtilesOpen(mbtilesFile)
+    }
+    const dataFiles = files.filter((file) => !isMbtilesFile(file))
+
+    // Dropped and pasted files are not filtered by the file input
+    const unsupportedFiles = dataFiles.filter((file) => !isSupportedFile(file.name))
+    if (unsupportedFiles.length > 0) {
+      setError(`Unsupported file format: ${unsupportedFiles.map((file) => file.name).join(", ")}`)
+    }
+
+    dataFiles.filter((file) => isSupportedFile(file.name)).forEach((file) => {
+      const fileType = getFileFormat(file.name)
+
+      // CSV columns are mapped by the user before anything is loaded
+      if (fileType === "csv") {
+        setPendingCsvFiles((current) => [...current, file])
+      } else {
+        loadFile(file, fileType)
+      }
+    })
+  }
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    // Allow choosing the same file again
+    event.target.value = ""
+    handleFiles(files)
+  }
+
+  const handleCsvImport = (parsedData: KmlData, csvImport: CsvImportOptions) => {
+    const [file] = pendingCsvFiles
+    if (!file) return
+
+    const dataLayer = createLayer(file, "csv", parsedData)
+    addDataLayer(dataLayer)
+    rememberFile(file, dataLayer, csvImport)
+    setPendingCsvFiles((current) => current.slice(1))
+  }
+
+  const updateDataLayer = (layerId: string, changes: Partial<DataLayer>) => {
+    setDataLayers((current) =>
+      current.map((dataLayer) => (dataLayer.id === layerId ? { ...dataLayer, ...changes } : dataLayer)),
+    )
+  }
+
+  const handleLayerVisibilityToggle = (layerId: string) => {
+    setDataLayers((current) =>
+      current.map((dataLayer) =>
+        dataLayer.id === layerId ? { ...dataLayer, visible: !dataLayer.visible } : dataLayer,
+      ),
+    )
+  }
+
+  const handleLayerZoom = (layerId: string) => {
+    setFocusLayerRequest({ layerId })
+    if (isMobile) {
+      handleTabChange("map")
+    }
+  }
+
+  const handleLayerRemove = (layerId: string) => {
+    const dataLayer = dataLayers.find((layer) => layer.id === layerId)
+    if (!dataLayer) return
+
+    setDataLayers((current) => current.filter((layer) => layer.id !== layerId))
+    if (activeLayerId === layerId) {
+      setActiveLayerId(null)
+    }
+    if (selectedElement && findElementLayer(dataLayers, selectedElement) === dataLayer) {
+      setSelectedElement(null)
+    }
+
+    // Forget the folders and overlays of the layer
+    const folderIds = new Set(flattenFolders(dataLayer.kmlData.folders).map((folder) => folder.id))
+    const overlayIds = new Set(
+      dataLayer.kmlData.elements.filter((element) => element.type === "GroundOverlay").map((element) => element.id),
+    )
+    setHiddenFolderIds((current) => new Set([...current].filter((folderId) => !folderIds.has(folderId))))
+    setOverlayOpacities((current) =>
+      Object.fromEntries(Object.entries(current).filter(([elementId]) => !overlayIds.has(elementId))),
+    )
+
+    // Embedded KMZ files are not needed anymore
+    Object.values(dataLayer.kmlData.resources || {}).forEach((url) => URL.revokeObjectURL(url))
+  }
+
+  const handleWmsLayersAdd = (added: WmsLayer[]) => {
+    setWmsLayers((current) => [...added, ...current])
+    setIsWmsDialogOpen(false)
+  }
+
+  const updateWmsLayer = (layerId: string, changes: Partial<WmsLayer>) => {
+    setWmsLayers((current) =>
+      current.map((wmsLayer) => (wmsLayer.id === layerId ? { ...wmsLayer, ...changes } : wmsLayer)),
+    )
+  }
+
+  const handleWmsLayerRemove = (layerId: string) => {
+    setWmsLayers((current) => current.filter((wmsLayer) => wmsLayer.id !== layerId))
+  }
+
   const handleElementSelect = (element: KmlElement) => {
     setSelectedElement(element)
     if (isMobile) {
@@ -104,6 +554,26 @@ export default function ViewerPage() {
     }
   }
 
+  const handleFolderVisibilityToggle = (folderId: string) => {
+    setHiddenFolderIds((current) => {
+      const next = new Set(current)
+      if (next.has(folderId)) {
+        next.delete(folderId)
+      } else {
+        next.add(folderId)
+      }
+      return next
+    })
+  }
+
+  const handleTimeRangeChange = useCallback((range: TimeRange | null) => {
+    setTimeRange(range)
+  }, [])
+
+  const handleOverlayOpacityChange = (elementId: string, opacity: number) => {
+    setOverlayOpacities((current) => ({ ...current, [elementId]: opacity }))
+  }
+
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen)
 
@@ -143,7 +613,10 @@ export default function ViewerPage() {
           activeTab={activeTab}
           hasKmlData={!!kmlData}
           hasSelectedElement={!!selectedElement}
-          title={fileName || "KML Viewer"}
+          title={exportFileName || (dataLayers.length > 1 ? `${dataLayers.length} camadas` : "KML Viewer")}
+          exportMenu={
+            <ExportMenu kmlData={kmlData} fileName={exportFileName} filteredElements={filteredElements} isMobile />
+          }
         />
       ) : (
         <header className="px-4 h-16 flex items-center bg-[#110043] text-white">
@@ -155,6 +628,7 @@ export default function ViewerPage() {
               <h1 className="text-xl md:text-2xl font-bold">KML Viewer</h1>
             </div>
             <div className="flex items-center gap-2">
+              <ExportMenu kmlData={kmlData} fileName={exportFileName} filteredElements={filteredElements} />
               <Button
                 variant="outline"
                 size="default"
@@ -162,7 +636,7 @@ export default function ViewerPage() {
                 onClick={() => fileInputRef.current?.click()}
               >
                 <Upload className="mr-2 h-4 w-4" />
-                Upload KML/KMZ
+                Upload de arquivo
               </Button>
             </div>
           </div>
@@ -192,9 +666,10 @@ export default function ViewerPage() {
             <div className="flex flex-1 flex-col overflow-hidden">
               <Tabs defaultValue="elements" className="flex-1 overflow-hidden">
                 <div className="border-b px-4 py-2">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className="grid w-full grid-cols-4">
                     <TabsTrigger value="elements">Elementos</TabsTrigger>
                     <TabsTrigger value="details">Detalhes</TabsTrigger>
+                    <TabsTrigger value="layers">Camadas</TabsTrigger>
                     <TabsTrigger value="file">Arquivo</TabsTrigger>
                   </TabsList>
                 </div>
@@ -203,8 +678,35 @@ export default function ViewerPage() {
                   {kmlData ? (
                     <KmlElementsList
                       elements={kmlData.elements}
+                      folders={kmlData.folders}
+                      hiddenFolderIds={hiddenFolderIds}
                       selectedElement={selectedElement}
                       onElementSelect={handleElementSelect}
+                      onFolderVisibilityToggle={handleFolderVisibilityToggle}
+                      onFilteredElementsChange={setFilteredElements}
+                      initialFilters={elementFilters}
+                      onFiltersChange={setElementFilters}
+                      fileName={exportFileName}
+                      layerSelector={
+                        dataLayers.length > 1 && (
+                          <Select
+                            value={activeLayerId ?? ALL_LAYERS}
+                            onValueChange={(value) => setActiveLayerId(value === ALL_LAYERS ? null : value)}
+                          >
+                            <SelectTrigger className="h-9" aria-label="Camada">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ALL_LAYERS}>Todas as camadas</SelectItem>
+                              {dataLayers.map((dataLayer) => (
+                                <SelectItem key={dataLayer.id} value={dataLayer.id}>
+                                  {dataLayer.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )
+                      }
                       isMobile={isMobile}
                     />
                   ) : (
@@ -213,7 +715,7 @@ export default function ViewerPage() {
                         <Upload className="mx-auto h-12 w-12 text-gray-400" />
                         <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum arquivo KML carregado</h3>
                         <p className="mt-1 text-sm text-gray-500">
-                          Faça upload de um arquivo KML para visualizar seus elementos
+                          Faça upload, arraste ou cole um arquivo KML para visualizar seus elementos
                         </p>
                         <div className="mt-6">
                           <Button
@@ -231,7 +733,13 @@ export default function ViewerPage() {
 
                 <TabsContent value="details" className="flex-1 overflow-hidden p-0">
                   {selectedElement ? (
-                    <KmlElementDetails element={selectedElement} isMobile={isMobile} />
+                    <KmlElementDetails
+                      element={selectedElement}
+                      overlayOpacity={overlayOpacities[selectedElement.id]}
+                      onOverlayOpacityChange={(opacity) => handleOverlayOpacityChange(selectedElement.id, opacity)}
+                      onCopyLink={() => handleElementLinkCopy(selectedElement)}
+                      isMobile={isMobile}
+                    />
                   ) : (
                     <div className="flex h-full items-center justify-center p-4 text-center">
                       <div>
@@ -244,12 +752,31 @@ export default function ViewerPage() {
                     </div>
                   )}
                 </TabsContent>
+                <TabsContent value="layers" className="flex-1 overflow-hidden p-0">
+                  <LayerManager
+                    dataLayers={dataLayers}
+                    activeLayerId={activeLayerId}
+                    onActiveLayerChange={setActiveLayerId}
+                    onVisibilityToggle={handleLayerVisibilityToggle}
+                    onOpacityChange={(layerId, opacity) => updateDataLayer(layerId, { opacity })}
+                    onMove={(layerId, offset) => setDataLayers((current) => moveDataLayer(current, layerId, offset))}
+                    onZoomTo={handleLayerZoom}
+                    onRemove={handleLayerRemove}
+                    onUpload={() => fileInputRef.current?.click()}
+                    wmsLayers={wmsLayers}
+                    onWmsLayerChange={updateWmsLayer}
+                    onWmsLayerRemove={handleWmsLayerRemove}
+                    onWmsLayerAdd={() => setIsWmsDialogOpen(true)}
+                    isMobile={isMobile}
+                  />
+                </TabsContent>
                 <TabsContent value="file" className="flex-1 overflow-hidden p-0">
                   <FileInfoPanel
-                    kmlData={kmlData}
-                    fileName={fileName}
-                    fileSize={fileSize}
-                    fileType={fileType}
+                    kmlData={fileLayer?.kmlData ?? null}
+                    fileName={fileLayer?.name ?? null}
+                    fileSize={fileLayer?.fileSize ?? null}
+                    fileType={fileLayer?.fileType ?? null}
+                    onElementSelect={handleElementSelect}
                     isMobile={isMobile}
                   />
                 </TabsContent>
@@ -268,17 +795,64 @@ export default function ViewerPage() {
           )}
 
           <KmlViewer
-            kmlData={kmlData}
+            dataLayers={dataLayers}
+            focusLayerRequest={focusLayerRequest}
             isLoading={isLoading}
+            loadingProgress={loadingProgress}
+            onLoadingCancel={handleLoadingCancel}
+            viewRequest={viewRequest}
+            onViewChange={handleMapViewChange}
+            baseLayer={baseLayer}
+            onBaseLayerChange={handleBaseLayerChange}
+            mbtiles={mbtiles}
+            onMbtilesOpen={handleMbtilesOpen}
+            onOfflineDownload={() => setIsOfflineDialogOpen(true)}
+            wmsLayers={wmsLayers}
+            recentFiles={recentFiles}
+            onRecentFileOpen={handleRecentFileOpen}
+            onRecentFileRemove={handleRecentFileRemove}
             selectedElement={selectedElement}
             onElementSelect={handleElementSelect}
+            onElementLinkCopy={handleElementLinkCopy}
+            hiddenFolderIds={hiddenFolderIds}
+            overlayOpacities={overlayOpacities}
+            timeRange={timeRange}
             isMobile={isMobile}
           />
+
+          {allLayersData?.timeExtent && (
+            <TimeSlider
+              extent={allLayersData.timeExtent}
+              onRangeChange={handleTimeRangeChange}
+              rangeRequest={timeRangeRequest}
+              isMobile={isMobile}
+            />
+          )}
         </div>
       </main>
 
       {/* Hidden file input */}
-      <input ref={fileInputRef} type="file" accept=".kml,.kmz" onChange={handleFileUpload} className="hidden" />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={FILE_ACCEPT}
+        multiple
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+      <CsvImportDialog
+        file={pendingCsvFiles[0] ?? null}
+        onImport={handleCsvImport}
+        onCancel={() => setPendingCsvFiles((current) => current.slice(1))}
+      />
+      <WmsLayerDialog open={isWmsDialogOpen} onAdd={handleWmsLayersAdd} onCancel={() => setIsWmsDialogOpen(false)} />
+      <OfflineTilesDialog
+        open={isOfflineDialogOpen}
+        baseLayer={resolveBaseLayer(baseLayer)}
+        bounds={offlineBounds}
+        onClose={() => setIsOfflineDialogOpen(false)}
+      />
+      <FileDropZone onFiles={handleFiles} />
     </div>
   )
 }
@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useToast } from "@/components/ui/use-toast"
+import { buildAttributeTable, getAttributeColumns } from "@/lib/attribute-table"
+import { serializeCsv } from "@/lib/csv-writer"
+import { downloadBlob, getExportFileName } from "@/lib/download"
+import type { KmlElement } from "@/lib/types"
+import { writeXlsx } from "@/lib/xlsx-writer"
+
+interface AttributeExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  elements: KmlElement[]
+  fileName?: string | null
+}
+
+export function AttributeExportDialog({ open, onOpenChange, elements, fileName }: AttributeExportDialogProps) {
+  const [format, setFormat] = useState<"csv" | "xlsx">("xlsx")
+  const [selectedColumnIds, setSelectedColumnIds] = useState<Set<string>>(new Set())
+  const [isExporting, setIsExporting] = useState(false)
+  const { toast } = useToast()
+
+  const columns = useMemo(() => getAttributeColumns(elements), [elements])
+
+  // Start from the default columns every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedColumnIds(new Set(columns.filter((column) => column.isDefault).map((column) => column.id)))
+    }
+  }, [open, columns])
+
+  const toggleColumn = (columnId: string, checked: boolean) => {
+    setSelectedColumnIds((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(columnId)
+      } else {
+        next.delete(columnId)
+      }
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    const table = buildAttributeTable(elements, columns.filter((column) => selectedColumnIds.has(column.id)))
+
+    setIsExporting(true)
+    try {
+      if (format === "csv") {
+        downloadBlob(new Blob([serializeCsv(table)], { type: "text/csv" }), getExportFileName(fileName, "csv"))
+      } else {
+        downloadBlob(await writeXlsx(table), getExportFileName(fileName, "xlsx"))
+      }
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Attribute table export error:", error)
+      toast({
+        title: "Erro ao exportar",
+        description: "Não foi possível gerar a tabela de atributos.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Exportar tabela de atributos</DialogTitle>
+          <DialogDescription>
+            {elements.length} {elements.length === 1 ? "elemento" : "elementos"}. Linhas e polígonos usam o centroide
+            como latitude e longitude.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={format}
+            onValueChange={(value) => setFormat(value as "csv" | "xlsx")}
+            className="flex items-center gap-4"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="xlsx" id="attribute-format-xlsx" />
+              <Label htmlFor="attribute-format-xlsx" className="font-normal">
+                Excel (XLSX)
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="csv" id="attribute-format-csv" />
+              <Label htmlFor="attribute-format-csv" className="font-normal">
+                CSV
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Colunas</Label>
+              <div className="flex gap-2">
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setSelectedColumnIds(new Set(columns.map((column) => column.id)))}
+                >
+                  Todas
+                </Button>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setSelectedColumnIds(new Set())}
+                >
+                  Nenhuma
+                </Button>
+              </div>
+            </div>
+            <ScrollArea className="h-56 rounded-md border">
+              <div className="grid gap-2 p-3">
+                {columns.map((column) => (
+                  <div key={column.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`attribute-column-${column.id}`}
+                      checked={selectedColumnIds.has(column.id)}
+                      onCheckedChange={(checked) => toggleColumn(column.id, checked === true)}
+                    />
+                    <Label htmlFor={`attribute-column-${column.id}`} className="truncate font-normal">
+                      {column.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleExport} disabled={selectedColumnIds.size === 0 || isExporting}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
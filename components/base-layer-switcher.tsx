@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Download, FolderOpen, Layers2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import {
+  BASE_LAYERS,
+  CUSTOM_BASE_LAYER,
+  MBTILES_BASE_LAYER,
+  NO_BASE_LAYER,
+  normalizeTileUrl,
+  type BaseLayerSelection,
+} from "@/lib/base-layers"
+
+interface BaseLayerSwitcherProps {
+  selection: BaseLayerSelection
+  onChange: (selection: BaseLayerSelection) => void
+  mbtilesName?: string // Name of the MBTiles file opened, offered as a base layer
+  onMbtilesOpen?: (file: File) => void
+  onOfflineDownload?: () => void
+}
+
+// Map button to choose the base layer, type the URL of a tile server or prepare the map for offline use
+export function BaseLayerSwitcher({
+  selection,
+  onChange,
+  mbtilesName,
+  onMbtilesOpen,
+  onOfflineDownload,
+}: BaseLayerSwitcherProps) {
+  const mbtilesInputRef = useRef<HTMLInputElement>(null)
+  const [customUrl, setCustomUrl] = useState(selection.customUrl ?? "")
+  const [isCustomSelected, setIsCustomSelected] = useState(selection.id === CUSTOM_BASE_LAYER)
+  const [error, setError] = useState<string | null>(null)
+
+  // Follow changes made elsewhere, e.g. by a shared link
+  useEffect(() => {
+    setCustomUrl(selection.customUrl ?? "")
+    setIsCustomSelected(selection.id === CUSTOM_BASE_LAYER)
+  }, [selection])
+
+  const handleValueChange = (value: string) => {
+    setError(null)
+    if (value === CUSTOM_BASE_LAYER) {
+      // Only applied once a valid URL is entered
+      setIsCustomSelected(true)
+      if (normalizeTileUrl(customUrl)) onChange({ id: CUSTOM_BASE_LAYER, customUrl })
+    } else {
+      setIsCustomSelected(false)
+      onChange({ id: value })
+    }
+  }
+
+  const handleApplyCustomUrl = () => {
+    if (!normalizeTileUrl(customUrl)) {
+      setError("Informe uma URL http(s) com {z}, {x} e {y} (ou {TileMatrix}, {TileCol} e {TileRow})")
+      return
+    }
+    setError(null)
+    onChange({ id: CUSTOM_BASE_LAYER, customUrl: customUrl.trim() })
+  }
+
+  return (
+    <Popover>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="bg-white shadow-md hover:bg-gray-100 h-12 w-12 rounded-full"
+                aria-label="Mapa base"
+              >
+                <Layers2 className="h-5 w-5 text-[#3700ff]" />
+              </Button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Mapa base</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      <PopoverContent side="left" align="end" className="w-80">
+        <h4 className="mb-3 text-sm font-medium">Mapa base</h4>
+        <RadioGroup value={isCustomSelected ? CUSTOM_BASE_LAYER : selection.id} onValueChange={handleValueChange}>
+          {BASE_LAYERS.map((baseLayer) => (
+            <div key={baseLayer.id} className="flex items-center gap-2">
+              <RadioGroupItem value={baseLayer.id} id={`base-layer-${baseLayer.id}`} />
+              <Label htmlFor={`base-layer-${baseLayer.id}`} className="font-normal">
+                {baseLayer.name}
+              </Label>
+            </div>
+          ))}
+          {mbtilesName && (
+            <div className="flex min-w-0 items-center gap-2">
+              <RadioGroupItem value={MBTILES_BASE_LAYER} id="base-layer-mbtiles" />
+              <Label htmlFor="base-layer-mbtiles" className="truncate font-normal" title={mbtilesName}>
+                MBTiles: {mbtilesName}
+              </Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value={NO_BASE_LAYER} id="base-layer-none" />
+            <Label htmlFor="base-layer-none" className="font-normal">
+              Nenhum
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value={CUSTOM_BASE_LAYER} id="base-layer-custom" />
+            <Label htmlFor="base-layer-custom" className="font-normal">
+              Personalizado (XYZ ou WMTS)
+            </Label>
+          </div>
+        </RadioGroup>
+
+        {isCustomSelected && (
+          <div className="mt-3 grid gap-2">
+            <Input
+              value={customUrl}
+              onChange={(event) => setCustomUrl(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") handleApplyCustomUrl()
+              }}
+              placeholder="https://exemplo.com/tiles/{z}/{x}/{y}.png"
+              aria-label="URL dos tiles"
+              className="h-9 text-xs"
+            />
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <Button size="sm" onClick={handleApplyCustomUrl} className="bg-[#3700ff] hover:bg-[#3700ff]/90">
+              Aplicar
+            </Button>
+          </div>
+        )}
+
+        {(onOfflineDownload || onMbtilesOpen) && (
+          <div className="mt-4 grid gap-2 border-t pt-3">
+            <h4 className="text-sm font-medium">Uso offline</h4>
+            {onOfflineDownload && (
+              <Button variant="outline" size="sm" onClick={onOfflineDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                Baixar tiles da área carregada
+              </Button>
+            )}
+            {onMbtilesOpen && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => mbtilesInputRef.current?.click()}>
+                  <FolderOpen className="mr-2 h-4 w-4" />
+                  Abrir arquivo MBTiles
+                </Button>
+                <input
+                  ref={mbtilesInputRef}
+                  type="file"
+                  accept=".mbtiles"
+                  className="hidden"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0]
+                    if (file) onMbtilesOpen(file)
+                    event.target.value = ""
+                  }}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
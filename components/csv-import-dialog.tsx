@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  createCsvData,
+  detectDelimiter,
+  guessColumnMapping,
+  isMappingComplete,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvDelimiter,
+  type CsvImportOptions,
+} from "@/lib/csv-parser"
+import type { KmlData } from "@/lib/types"
+
+interface CsvImportDialogProps {
+  file: File | null
+  onImport: (kmlData: KmlData, csvImport: CsvImportOptions) => void
+  onCancel: () => void
+}
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ",": "Vírgula (,)",
+  ";": "Ponto e vírgula (;)",
+  "\t": "Tabulação",
+  "|": "Barra vertical (|)",
+}
+
+// Data rows shown in the preview table
+const PREVIEW_ROWS = 5
+
+// Select value for an unmapped optional column (Radix selects don't accept an empty value)
+const NO_COLUMN = "none"
+
+export function CsvImportDialog({ file, onImport, onCancel }: CsvImportDialogProps) {
+  const [text, setText] = useState<string | null>(null)
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(",")
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ mode: "latlng" })
+  const [error, setError] = useState<string | null>(null)
+
+  const rows = useMemo(() => (text !== null ? parseCsv(text, delimiter) : []), [text, delimiter])
+  const headers = rows[0] || []
+
+  // Read the file and guess the delimiter and columns
+  useEffect(() => {
+    setText(null)
+    setError(null)
+    if (!file) return
+
+    let isCancelled = false
+    file
+      .text()
+      .then((content) => {
+        if (isCancelled) return
+        const detected = detectDelimiter(content)
+        setText(content)
+        setDelimiter(detected)
+        setMapping(guessColumnMapping(parseCsv(content, detected)[0] || []))
+      })
+      .catch((err) => {
+        if (!isCancelled) setError(err instanceof Error ? err.message : "Failed to read the file")
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [file])
+
+  const handleDelimiterChange = (value: string) => {
+    const next = value as CsvDelimiter
+    setDelimiter(next)
+    if (text !== null) setMapping(guessColumnMapping(parseCsv(text, next)[0] || []))
+  }
+
+  const handleImport = () => {
+    try {
+      onImport(createCsvData(rows, mapping), { delimiter, mapping })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import the file")
+    }
+  }
+
+  const renderColumnSelect = (field: keyof Omit<CsvColumnMapping, "mode">, label: string, isOptional = false) => {
+    const value = mapping[field]
+    return (
+      <div className="space-y-1">
+        <Label htmlFor={`csv-column-${field}`} className="text-xs">
+          {label}
+        </Label>
+        <Select
+          value={value !== undefined ? value.toString() : isOptional ? NO_COLUMN : ""}
+          onValueChange={(selected) =>
+            setMapping((current) => ({ ...current, [field]: selected === NO_COLUMN ? undefined : Number(selected) }))
+          }
+        >
+          <SelectTrigger id={`csv-column-${field}`} className="h-9">
+            <SelectValue placeholder="Selecione uma coluna" />
+          </SelectTrigger>
+          <SelectContent>
+            {isOptional && <SelectItem value={NO_COLUMN}>Nenhuma</SelectItem>}
+            {headers.map((header, index) => (
+              <SelectItem key={index} value={index.toString()}>
+                {header.trim() || `Coluna ${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importar {file?.name}</DialogTitle>
+          <DialogDescription>
+            Escolha as colunas com as coordenadas. As demais colunas são mantidas como atributos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {text === null && !error ? (
+          <p className="text-sm text-muted-foreground">Lendo arquivo...</p>
+        ) : (
+          <div className="space-y-4 min-w-0">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="csv-delimiter" className="text-xs">
+                  Separador
+                </Label>
+                <Select value={delimiter} onValueChange={handleDelimiterChange}>
+                  <SelectTrigger id="csv-delimiter" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {DELIMITER_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Geometria</Label>
+                <RadioGroup
+                  value={mapping.mode}
+                  onValueChange={(mode) =>
+                    setMapping((current) => ({ ...current, mode: mode as CsvColumnMapping["mode"] }))
+                  }
+                  className="flex h-9 items-center gap-4"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="latlng" id="csv-mode-latlng" />
+                    <Label htmlFor="csv-mode-latlng" className="text-sm font-normal">
+                      Latitude/Longitude
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="wkt" id="csv-mode-wkt" />
+                    <Label htmlFor="csv-mode-wkt" className="text-sm font-normal">
+                      WKT
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {mapping.mode === "latlng" ? (
+                <>
+                  {renderColumnSelect("latitude", "Latitude")}
+                  {renderColumnSelect("longitude", "Longitude")}
+                </>
+              ) : (
+                <div className="col-span-2">{renderColumnSelect("wkt", "Coluna WKT")}</div>
+              )}
+              {renderColumnSelect("name", "Nome", true)}
+              {renderColumnSelect("description", "Descrição", true)}
+            </div>
+
+            {rows.length > 0 && (
+              <div className="rounded-md border overflow-auto max-h-56">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {headers.map((header, index) => (
+                        <TableHead key={index} className="whitespace-nowrap">
+                          {header.trim() || `Coluna ${index + 1}`}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.slice(1, PREVIEW_ROWS + 1).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {headers.map((_, index) => (
+                          <TableCell key={index} className="whitespace-nowrap max-w-[200px] truncate">
+                            {row[index]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {Math.max(rows.length - 1, 0)} linhas. Coordenadas em graus decimais (ponto ou vírgula) ou em graus,
+              minutos e segundos.
+            </p>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={handleImport} disabled={text === null || !isMappingComplete(mapping)}>
+            Importar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from "react"
+import { Download, FileCode, FileArchive, FileJson, Filter, Loader2, Navigation } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useToast } from "@/components/ui/use-toast"
+import { downloadBlob, getExportFileName } from "@/lib/download"
+import { serializeGeoJson } from "@/lib/geojson-writer"
+import { serializeGpx } from "@/lib/gpx-writer"
+import { serializeKml } from "@/lib/kml-writer"
+import { writeKmz } from "@/lib/kmz-writer"
+import type { KmlData, KmlElement } from "@/lib/types"
+
+interface ExportMenuProps {
+  kmlData: KmlData | null
+  fileName: string | null
+  filteredElements?: KmlElement[] | null // Subset filtered in the elements list, if a filter is applied
+  isMobile?: boolean
+}
+
+export function ExportMenu({ kmlData, fileName, filteredElements, isMobile = false }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false)
+  const { toast } = useToast()
+
+  const handleExportKml = () => {
+    if (!kmlData) return
+    const kml = serializeKml(kmlData)
+    downloadBlob(new Blob([kml], { type: "application/vnd.google-earth.kml+xml" }), getExportFileName(fileName, "kml"))
+  }
+
+  const handleExportGeoJson = (elements: KmlElement[]) => {
+    if (!kmlData) return
+    const geoJson = serializeGeoJson(elements, kmlData.name)
+    downloadBlob(new Blob([geoJson], { type: "application/geo+json" }), getExportFileName(fileName, "geojson"))
+  }
+
+  const handleExportGpx = (elements: KmlElement[]) => {
+    if (!kmlData) return
+    const gpx = serializeGpx(elements, kmlData.name)
+    downloadBlob(new Blob([gpx], { type: "application/gpx+xml" }), getExportFileName(fileName, "gpx"))
+  }
+
+  const handleExportKmz = async () => {
+    if (!kmlData) return
+
+    setIsExporting(true)
+    try {
+      downloadBlob(await writeKmz(kmlData), getExportFileName(fileName, "kmz"))
+    } catch (error) {
+      console.error("KMZ export error:", error)
+      toast({
+        title: "Erro ao exportar",
+        description: "Não foi possível gerar o arquivo KMZ.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {isMobile ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-white/10"
+            disabled={!kmlData || isExporting}
+            aria-label="Export file"
+          >
+            {isExporting ? <Loader2 className="h-5 w-5 animate-spin" /> : <Download className="h-5 w-5" />}
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="default"
+            className="border-white text-white hover:bg-white hover:text-[#110043]"
+            disabled={!kmlData || isExporting}
+          >
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Exportar
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Exportar dados</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={handleExportKml}>
+          <FileCode className="mr-2 h-4 w-4" />
+          KML
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={handleExportKmz}>
+          <FileArchive className="mr-2 h-4 w-4" />
+          KMZ (com imagens)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => kmlData && handleExportGeoJson(kmlData.elements)}>
+          <FileJson className="mr-2 h-4 w-4" />
+          GeoJSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => kmlData && handleExportGpx(kmlData.elements)}>
+          <Navigation className="mr-2 h-4 w-4" />
+          GPX (pontos e trilhas)
+        </DropdownMenuItem>
+        {filteredElements && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Elementos filtrados ({filteredElements.length})</DropdownMenuLabel>
+            <DropdownMenuItem
+              onSelect={() => handleExportGeoJson(filteredElements)}
+              disabled={filteredElements.length === 0}
+            >
+              <Filter className="mr-2 h-4 w-4" />
+              GeoJSON
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExportGpx(filteredElements)} disabled={filteredElements.length === 0}>
+              <Filter className="mr-2 h-4 w-4" />
+              GPX
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
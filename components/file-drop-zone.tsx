@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Upload } from "lucide-react"
+import { getDroppedFiles } from "@/lib/dropped-files"
+import { createFileFromText } from "@/lib/parse-file"
+
+interface FileDropZoneProps {
+  onFiles: (files: File[]) => void
+}
+
+// Loads files dropped anywhere on the window, and files or map text pasted outside of text fields
+export function FileDropZone({ onFiles }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false)
+  const onFilesRef = useRef(onFiles)
+  onFilesRef.current = onFiles
+
+  useEffect(() => {
+    // dragenter and dragleave also fire when moving between child elements, so nesting is counted
+    let dragDepth = 0
+
+    // Text or links dragged within the page are not files
+    const hasFiles = (event: DragEvent) => Array.from(event.dataTransfer?.types || []).includes("Files")
+
+    const handleDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      dragDepth++
+      setIsDragging(true)
+    }
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      // Required for the drop event to fire
+      event.preventDefault()
+      event.dataTransfer!.dropEffect = "copy"
+    }
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      dragDepth = Math.max(0, dragDepth - 1)
+      if (dragDepth === 0) {
+        setIsDragging(false)
+      }
+    }
+
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      // Keep the browser from opening the file
+      event.preventDefault()
+      dragDepth = 0
+      setIsDragging(false)
+
+      getDroppedFiles(event.dataTransfer!)
+        .then((files) => {
+          if (files.length > 0) {
+            onFilesRef.current(files)
+          }
+        })
+        .catch((error) => console.error("Error reading dropped files:", error))
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      // Pasting into the search box and other fields works as usual
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return
+      if (!event.clipboardData) return
+
+      const files = Array.from(event.clipboardData.files)
+      if (files.length > 0) {
+        event.preventDefault()
+        onFilesRef.current(files)
+        return
+      }
+
+      const file = createFileFromText(event.clipboardData.getData("text"))
+      if (file) {
+        event.preventDefault()
+        onFilesRef.current([file])
+      }
+    }
+
+    window.addEventListener("dragenter", handleDragEnter)
+    window.addEventListener("dragover", handleDragOver)
+    window.addEventListener("dragleave", handleDragLeave)
+    window.addEventListener("drop", handleDrop)
+    document.addEventListener("paste", handlePaste)
+
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter)
+      window.removeEventListener("dragover", handleDragOver)
+      window.removeEventListener("dragleave", handleDragLeave)
+      window.removeEventListener("drop", handleDrop)
+      document.removeEventListener("paste", handlePaste)
+    }
+  }, [])
+
+  if (!isDragging) return null
+
+  return (
+    <div className="pointer-events-none fixed inset-0 z-[2000] flex items-center justify-center bg-[#110043]/60 p-4">
+      <div className="rounded-lg border-2 border-dashed border-white bg-white/10 px-8 py-10 text-center text-white">
+        <Upload className="mx-auto h-12 w-12" />
+        <p className="mt-3 text-lg font-medium">Solte os arquivos para carregar</p>
+        <p className="mt-1 text-sm text-white/80">KML, KMZ, GeoJSON, GPX, Shapefile (ZIP) ou CSV, ou pastas com esses arquivos</p>
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,49 @@
-import { FileText, FileArchiveIcon as FileZip, Info } from "lucide-react"
+import { AlertTriangle, FileText, FileArchiveIcon as FileZip, Info, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import type { KmlData } from "@/lib/types"
+import type { KmlData, KmlElement, KmlNetworkLink, ParseDiagnostic } from "@/lib/types"
+import { flattenFolders } from "@/lib/kml-folders"
+import type { FileFormat } from "@/lib/parse-file"
+
+// Why a NetworkLink could not be followed
+const NETWORK_LINK_STATUS_LABELS: Record<KmlNetworkLink["status"], string> = {
+  resolved: "Resolvido",
+  external: "Link externo (não carregado)",
+  missing: "Arquivo não encontrado",
+  cycle: "Referência circular",
+  "depth-limit": "Limite de profundidade atingido",
+}
+
+// Problems are listed most severe first
+const DIAGNOSTIC_SEVERITY_ORDER: ParseDiagnostic["severity"][] = ["error", "warning", "info"]
+
+const DIAGNOSTIC_SEVERITY_STYLES: Record<ParseDiagnostic["severity"], { className: string; icon: typeof Info }> = {
+  error: { className: "bg-red-50 text-red-900", icon: XCircle },
+  warning: { className: "bg-amber-50 text-amber-900", icon: AlertTriangle },
+  info: { className: "bg-blue-50 text-blue-900", icon: Info },
+}
+
+// Large broken files can produce thousands of problems, only the first ones are listed
+const MAX_LISTED_DIAGNOSTICS = 100
 
 interface FileInfoPanelProps {
   kmlData: KmlData | null
   fileName: string | null
   fileSize: number | null
-  fileType: "kml" | "kmz" | null
+  fileType: FileFormat | null
+  onElementSelect?: (element: KmlElement) => void
   isMobile?: boolean
 }
 
-export function FileInfoPanel({ kmlData, fileName, fileSize, fileType, isMobile = false }: FileInfoPanelProps) {
+export function FileInfoPanel({
+  kmlData,
+  fileName,
+  fileSize,
+  fileType,
+  onElementSelect,
+  isMobile = false,
+}: FileInfoPanelProps) {
   if (!kmlData || !fileName) {
     return (
       <div className="flex h-full items-center justify-center p-4 text-center">
@@ -24,6 +56,25 @@ export function FileInfoPanel({ kmlData, fileName, fileSize, fileType, isMobile
     )
   }
 
+  const unresolvedLinks = kmlData.networkLinks.filter((link) => link.status !== "resolved")
+  const diagnostics = [...kmlData.diagnostics].sort(
+    (a, b) => DIAGNOSTIC_SEVERITY_ORDER.indexOf(a.severity) - DIAGNOSTIC_SEVERITY_ORDER.indexOf(b.severity),
+  )
+
+  const formatDiagnosticLocation = (diagnostic: ParseDiagnostic): string | null => {
+    const parts: string[] = []
+    if (diagnostic.source) parts.push(diagnostic.source)
+    if (diagnostic.line !== undefined) {
+      parts.push(
+        diagnostic.column !== undefined
+          ? `Linha ${diagnostic.line}, coluna ${diagnostic.column}`
+          : `Linha ${diagnostic.line}`,
+      )
+    }
+    if (diagnostic.placemarkIndex !== undefined) parts.push(`Placemark nº ${diagnostic.placemarkIndex + 1}`)
+    return parts.length > 0 ? parts.join(" · ") : null
+  }
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} bytes`
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`
@@ -34,7 +85,7 @@ export function FileInfoPanel({ kmlData, fileName, fileSize, fileType, isMobile
     <ScrollArea className="h-full">
       <div className="p-4">
         <div className="flex items-center gap-3 mb-4">
-          {fileType === "kmz" ? (
+          {fileType === "kmz" || fileType === "shapefile" ? (
             <FileZip className="h-10 w-10 text-[#ff3f19]" />
           ) : (
             <FileText className="h-10 w-10 text-[#3700ff]" />
@@ -81,6 +132,14 @@ export function FileInfoPanel({ kmlData, fileName, fileSize, fileType, isMobile
               <dt className="col-span-1 text-gray-500">Total de Elementos</dt>
               <dd className="col-span-2">{kmlData.elements.length}</dd>
 
+              <dt className="col-span-1 text-gray-500">Pastas</dt>
+              <dd className="col-span-2">{flattenFolders(kmlData.folders).length}</dd>
+
+              <dt className="col-span-1 text-gray-500">Links de Rede</dt>
+              <dd className="col-span-2">
+                {kmlData.networkLinks.length - unresolvedLinks.length} de {kmlData.networkLinks.length} resolvidos
+              </dd>
+
               <dt className="col-span-1 text-gray-500">Pontos</dt>
               <dd className="col-span-2">{kmlData.elements.filter((el) => el.type === "Point").length}</dd>
 
@@ -90,12 +149,86 @@ export function FileInfoPanel({ kmlData, fileName, fileSize, fileType, isMobile
               <dt className="col-span-1 text-gray-500">Polígonos</dt>
               <dd className="col-span-2">{kmlData.elements.filter((el) => el.type === "Polygon").length}</dd>
 
+              <dt className="col-span-1 text-gray-500">Multigeometrias</dt>
+              <dd className="col-span-2">{kmlData.elements.filter((el) => el.type === "MultiGeometry").length}</dd>
+
+              <dt className="col-span-1 text-gray-500">Trilhas</dt>
+              <dd className="col-span-2">{kmlData.elements.filter((el) => el.type === "Track").length}</dd>
+
+              <dt className="col-span-1 text-gray-500">Sobreposições</dt>
+              <dd className="col-span-2">{kmlData.elements.filter((el) => el.type === "GroundOverlay").length}</dd>
+
               <dt className="col-span-1 text-gray-500">Outros</dt>
               <dd className="col-span-2">
-                {kmlData.elements.filter((el) => !["Point", "LineString", "Polygon"].includes(el.type)).length}
+                {
+                  kmlData.elements.filter(
+                    (el) =>
+                      !["Point", "LineString", "Polygon", "MultiGeometry", "Track", "GroundOverlay"].includes(el.type),
+                  ).length
+                }
               </dd>
             </dl>
           </div>
+
+          {unresolvedLinks.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Links de Rede Não Resolvidos</h4>
+              <Separator className="my-2" />
+              <ul className="grid gap-2 text-sm">
+                {unresolvedLinks.map((link) => (
+                  <li key={link.id} className="flex gap-2 rounded-md bg-amber-50 p-2 text-amber-900">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="font-medium">{link.name || "Link sem nome"}</div>
+                      <div className="break-all font-mono text-xs">{link.href}</div>
+                      <div className="text-xs">{NETWORK_LINK_STATUS_LABELS[link.status]}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diagnostics.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Problemas ({diagnostics.length})</h4>
+              <Separator className="my-2" />
+              <ul className="grid gap-2 text-sm">
+                {diagnostics.slice(0, MAX_LISTED_DIAGNOSTICS).map((diagnostic, index) => {
+                  const { className, icon: Icon } = DIAGNOSTIC_SEVERITY_STYLES[diagnostic.severity]
+                  const location = formatDiagnosticLocation(diagnostic)
+                  const element = diagnostic.elementId
+                    ? kmlData.elements.find((el) => el.id === diagnostic.elementId)
+                    : undefined
+
+                  return (
+                    <li key={index} className={`flex gap-2 rounded-md p-2 ${className}`}>
+                      <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+                      <div className="min-w-0">
+                        <div className="break-words">{diagnostic.message}</div>
+                        {location && <div className="break-all text-xs">{location}</div>}
+                        {element && onElementSelect && (
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() => onElementSelect(element)}
+                          >
+                            Ver {element.name || "elemento"}
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+              {diagnostics.length > MAX_LISTED_DIAGNOSTICS && (
+                <p className="mt-2 text-xs text-gray-500">
+                  E mais {diagnostics.length - MAX_LISTED_DIAGNOSTICS} problemas não listados
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </ScrollArea>
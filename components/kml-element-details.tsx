@@ -1,19 +1,46 @@
 "use client"
 
-import React from "react"
+import React, { useEffect, useState } from "react"
 
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import type { KmlElement } from "@/lib/types"
+import type { KmlElement, KmlGeometry } from "@/lib/types"
 import { Button } from "@/components/ui/button"
-import { Navigation } from "lucide-react"
+import { Slider } from "@/components/ui/slider"
+import { Check, LinkIcon, Navigation } from "lucide-react"
+import { formatDuration } from "@/lib/track-playback"
 
 interface KmlElementDetailsProps {
   element: KmlElement
+  overlayOpacity?: number
+  onOverlayOpacityChange?: (opacity: number) => void
+  onCopyLink?: () => Promise<void> // Copy a link to the viewer with this element selected
   isMobile?: boolean
 }
 
-export function KmlElementDetails({ element, isMobile = false }: KmlElementDetailsProps) {
+export function KmlElementDetails({
+  element,
+  overlayOpacity,
+  onOverlayOpacityChange,
+  onCopyLink,
+  isMobile = false,
+}: KmlElementDetailsProps) {
+  const currentOverlayOpacity = overlayOpacity ?? element.overlay?.opacity ?? 1
+  const [isLinkCopied, setIsLinkCopied] = useState(false)
+
+  // Confirm the copy for a moment
+  useEffect(() => {
+    if (!isLinkCopied) return
+    const timer = setTimeout(() => setIsLinkCopied(false), 2000)
+    return () => clearTimeout(timer)
+  }, [isLinkCopied])
+
+  const handleCopyLink = () => {
+    onCopyLink?.()
+      .then(() => setIsLinkCopied(true))
+      .catch((error) => console.error("Error copying link:", error))
+  }
+
   // Format coordinates for display
   const formatCoordinates = (coords: number[][]) => {
     if (!coords || coords.length === 0) return "No coordinates"
@@ -26,14 +53,28 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
     return `${coords.length} points`
   }
 
+  // Count the leaf geometries of a MultiGeometry by type
+  const countGeometries = (geometries: KmlGeometry[] = [], counts: Record<string, number> = {}) => {
+    geometries.forEach((geometry) => {
+      if (geometry.type === "MultiGeometry") {
+        countGeometries(geometry.geometries, counts)
+      } else {
+        counts[geometry.type] = (counts[geometry.type] || 0) + 1
+      }
+    })
+    return counts
+  }
+
   // Get style preview color
   const getStylePreview = () => {
-    if (element.type === "LineString") {
+    if (element.type === "LineString" || element.type === "Track") {
       return element.style?.color || "#3700ff"
     } else if (element.type === "Polygon") {
       return element.style?.fillColor || "#42eedc"
+    } else if (element.type === "MultiGeometry") {
+      return element.style?.fillColor || element.style?.color || "#3700ff"
     }
-    return "#ff3f19"
+    return element.style?.iconColor || "#ff3f19"
   }
 
   // Open in Google Maps
@@ -52,12 +93,20 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
         <h3 className="text-lg font-semibold">{element.name || `Unnamed ${element.type}`}</h3>
         <p className="text-sm text-gray-500">{element.type}</p>
 
-        {element.type === "Point" && (
-          <Button variant="outline" size="sm" className="mt-2 w-full sm:w-auto" onClick={openInGoogleMaps}>
-            <Navigation className="mr-2 h-4 w-4" />
-            Navegar até aqui
-          </Button>
-        )}
+        <div className="flex flex-wrap gap-2">
+          {element.type === "Point" && (
+            <Button variant="outline" size="sm" className="mt-2 w-full sm:w-auto" onClick={openInGoogleMaps}>
+              <Navigation className="mr-2 h-4 w-4" />
+              Navegar até aqui
+            </Button>
+          )}
+          {onCopyLink && (
+            <Button variant="outline" size="sm" className="mt-2 w-full sm:w-auto" onClick={handleCopyLink}>
+              {isLinkCopied ? <Check className="mr-2 h-4 w-4" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+              {isLinkCopied ? "Link copiado" : "Copiar link"}
+            </Button>
+          )}
+        </div>
       </div>
 
       <ScrollArea className="flex-1">
@@ -74,6 +123,19 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
                 <dt className="col-span-1 text-gray-500">ID</dt>
                 <dd className="col-span-2 font-mono text-xs overflow-hidden text-ellipsis">{element.id}</dd>
 
+                {element.time && (
+                  <>
+                    <dt className="col-span-1 text-gray-500">Tempo</dt>
+                    <dd className="col-span-2">
+                      {element.time.begin === element.time.end
+                        ? new Date(element.time.begin!).toLocaleString()
+                        : `${element.time.begin !== undefined ? new Date(element.time.begin).toLocaleString() : "…"} – ${
+                            element.time.end !== undefined ? new Date(element.time.end).toLocaleString() : "…"
+                          }`}
+                    </dd>
+                  </>
+                )}
+
                 {element.description && (
                   <>
                     <dt className="col-span-1 text-gray-500">Descrição</dt>
@@ -92,13 +154,42 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
                 <dd className="col-span-2">
                   {element.type === "Point"
                     ? "1 ponto"
-                    : element.type === "LineString"
-                      ? `${element.coordinates?.length || 0} pontos`
-                      : `${element.coordinates?.reduce((sum, ring) => sum + ring.length, 0) || 0} pontos em ${
-                          element.coordinates?.length || 0
-                        } anéis`}
+                    : element.type === "GroundOverlay"
+                      ? "4 cantos"
+                      : element.type === "LineString" || element.type === "Track"
+                        ? `${element.coordinates?.length || 0} pontos`
+                        : element.type === "MultiGeometry"
+                          ? `${element.geometries?.length || 0} geometrias`
+                          : `${element.coordinates?.reduce((sum, ring) => sum + ring.length, 0) || 0} pontos em ${
+                              element.coordinates?.length || 0
+                            } anéis`}
                 </dd>
 
+                {element.type === "MultiGeometry" && (
+                  <>
+                    <dt className="col-span-1 text-gray-500">Partes</dt>
+                    <dd className="col-span-2">
+                      {Object.entries(countGeometries(element.geometries))
+                        .map(([type, count]) => `${count} ${type}`)
+                        .join(", ")}
+                    </dd>
+
+                    {element.metadata?.length ? (
+                      <>
+                        <dt className="col-span-1 text-gray-500">Comprimento</dt>
+                        <dd className="col-span-2">{`${element.metadata.length.toFixed(2)} km`}</dd>
+                      </>
+                    ) : null}
+
+                    {element.metadata?.area ? (
+                      <>
+                        <dt className="col-span-1 text-gray-500">Área</dt>
+                        <dd className="col-span-2">{`${element.metadata.area.toFixed(2)} km²`}</dd>
+                      </>
+                    ) : null}
+                  </>
+                )}
+
                 {element.type === "Point" && (
                   <>
                     <dt className="col-span-1 text-gray-500">Localização</dt>
@@ -106,7 +197,7 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
                   </>
                 )}
 
-                {element.type === "LineString" && (
+                {(element.type === "LineString" || element.type === "Track") && (
                   <>
                     <dt className="col-span-1 text-gray-500">Comprimento</dt>
                     <dd className="col-span-2">
@@ -126,6 +217,72 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
               </dl>
             </div>
 
+            {/* Track */}
+            {element.type === "Track" && element.timestamps && element.timestamps.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Trilha</h4>
+                <Separator className="my-2" />
+                <dl className="grid grid-cols-3 gap-1 text-sm">
+                  <dt className="col-span-1 text-gray-500">Início</dt>
+                  <dd className="col-span-2">{new Date(element.timestamps[0]).toLocaleString()}</dd>
+
+                  <dt className="col-span-1 text-gray-500">Fim</dt>
+                  <dd className="col-span-2">
+                    {new Date(element.timestamps[element.timestamps.length - 1]).toLocaleString()}
+                  </dd>
+
+                  <dt className="col-span-1 text-gray-500">Duração</dt>
+                  <dd className="col-span-2">
+                    {formatDuration(element.timestamps[element.timestamps.length - 1] - element.timestamps[0])}
+                  </dd>
+
+                  {element.geometries && (
+                    <>
+                      <dt className="col-span-1 text-gray-500">Segmentos</dt>
+                      <dd className="col-span-2">{element.geometries.length}</dd>
+                    </>
+                  )}
+                </dl>
+              </div>
+            )}
+
+            {/* Ground Overlay */}
+            {element.type === "GroundOverlay" && element.overlay && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Sobreposição</h4>
+                <Separator className="my-2" />
+                <dl className="grid grid-cols-3 gap-1 text-sm">
+                  <dt className="col-span-1 text-gray-500">Imagem</dt>
+                  <dd className="col-span-2 break-all font-mono text-xs">{element.overlay.href}</dd>
+
+                  <dt className="col-span-1 text-gray-500">Posicionamento</dt>
+                  <dd className="col-span-2">{element.overlay.latLonQuad ? "gx:LatLonQuad" : "LatLonBox"}</dd>
+
+                  {element.overlay.latLonBox && !element.overlay.latLonQuad && (
+                    <>
+                      <dt className="col-span-1 text-gray-500">Rotação</dt>
+                      <dd className="col-span-2">{element.overlay.latLonBox.rotation}°</dd>
+                    </>
+                  )}
+                </dl>
+
+                <div className="mt-3">
+                  <div className="mb-2 flex items-center justify-between text-sm">
+                    <span className="text-gray-500">Opacidade</span>
+                    <span>{Math.round(currentOverlayOpacity * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[currentOverlayOpacity * 100]}
+                    min={0}
+                    max={100}
+                    step={1}
+                    onValueChange={([value]) => onOverlayOpacityChange?.(value / 100)}
+                    aria-label="Opacidade da sobreposição"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Style Information */}
             <div>
               <h4 className="text-sm font-medium text-gray-900">Estilo</h4>
@@ -135,7 +292,24 @@ export function KmlElementDetails({ element, isMobile = false }: KmlElementDetai
                 <span className="text-sm">{getStylePreview()}</span>
               </div>
               <dl className="grid grid-cols-3 gap-1 text-sm">
-                {element.type === "LineString" && (
+                {element.type === "Point" && element.style?.iconUrl && (
+                  <>
+                    <dt className="col-span-1 text-gray-500">Ícone</dt>
+                    <dd className="col-span-2 break-all font-mono text-xs">{element.style.iconUrl}</dd>
+
+                    <dt className="col-span-1 text-gray-500">Escala</dt>
+                    <dd className="col-span-2">{element.style.iconScale ?? "Padrão"}</dd>
+
+                    {element.style.iconHeading ? (
+                      <>
+                        <dt className="col-span-1 text-gray-500">Direção</dt>
+                        <dd className="col-span-2">{element.style.iconHeading}°</dd>
+                      </>
+                    ) : null}
+                  </>
+                )}
+
+                {(element.type === "LineString" || element.type === "Track") && (
                   <>
                     <dt className="col-span-1 text-gray-500">Cor da Linha</dt>
                     <dd className="col-span-2">{element.style?.color || "Padrão"}</dd>
@@ -1,33 +1,100 @@
 "use client"
 
-import { useState } from "react"
-import { Search, Map, LineChart, Hexagon, Circle } from "lucide-react"
+import type React from "react"
+
+import { useEffect, useMemo, useState } from "react"
+import { Search, Map as MapIcon, LineChart, Hexagon, Circle, Shapes, Image, Route, ChevronRight, ChevronDown, Folder, Eye, EyeOff, Sheet } from "lucide-react"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Input } from "@/components/ui/input"
-import type { KmlElement } from "@/lib/types"
+import type { KmlElement, KmlFolder } from "@/lib/types"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AttributeExportDialog } from "@/components/attribute-export-dialog"
+import { flattenFolders, isFolderHidden } from "@/lib/kml-folders"
+
+// Search box and type filter of the list
+export interface ElementFilters {
+  searchQuery: string
+  typeFilter: string | null
+}
 
 interface KmlElementsListProps {
   elements: KmlElement[]
+  folders: KmlFolder[]
+  hiddenFolderIds: Set<string>
   selectedElement: KmlElement | null
   onElementSelect: (element: KmlElement) => void
+  onFolderVisibilityToggle: (folderId: string) => void
+  onFilteredElementsChange?: (elements: KmlElement[] | null) => void // null while no filter is applied
+  initialFilters?: ElementFilters // e.g. from a shared link
+  onFiltersChange?: (filters: ElementFilters) => void
+  fileName?: string | null // Loaded file, used to name the exported attribute table
+  layerSelector?: React.ReactNode // Shown above the search box, to scope the list to one layer
   isMobile?: boolean
 }
 
 export function KmlElementsList({
   elements,
+  folders,
+  hiddenFolderIds,
   selectedElement,
   onElementSelect,
+  onFolderVisibilityToggle,
+  onFilteredElementsChange,
+  initialFilters,
+  onFiltersChange,
+  fileName,
+  layerSelector,
   isMobile = false,
 }: KmlElementsListProps) {
-  const [searchQuery, setSearchQuery] = useState("")
-  const [typeFilter, setTypeFilter] = useState<string | null>(null)
-
-  const filteredElements = elements.filter(
-    (element) =>
-      (typeFilter === null || element.type === typeFilter) &&
-      (element.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        element.type.toLowerCase().includes(searchQuery.toLowerCase())),
+  const [searchQuery, setSearchQuery] = useState(initialFilters?.searchQuery ?? "")
+  const [typeFilter, setTypeFilter] = useState<string | null>(initialFilters?.typeFilter ?? null)
+  const [expandedFolderIds, setExpandedFolderIds] = useState<Set<string>>(new Set())
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+
+  const foldersById = useMemo(() => new Map(flattenFolders(folders).map((f) => [f.id, f])), [folders])
+
+  // Expand folders marked as <open> when a new tree is loaded
+  useEffect(() => {
+    setExpandedFolderIds(new Set(flattenFolders(folders).filter((f) => f.open).map((f) => f.id)))
+  }, [folders])
+
+  // Reveal the selected element when it is selected from the map
+  useEffect(() => {
+    if (!selectedElement?.folderId) return
+
+    setExpandedFolderIds((current) => {
+      const next = new Set(current)
+      let folderId: string | undefined = selectedElement.folderId
+      while (folderId) {
+        next.add(folderId)
+        folderId = foldersById.get(folderId)?.parentId
+      }
+      return next
+    })
+  }, [selectedElement, foldersById])
+
+  const toggleFolderExpanded = (folderId: string) => {
+    setExpandedFolderIds((current) => {
+      const next = new Set(current)
+      if (next.has(folderId)) {
+        next.delete(folderId)
+      } else {
+        next.add(folderId)
+      }
+      return next
+    })
+  }
+
+  const filteredElements = useMemo(
+    () =>
+      elements.filter(
+        (element) =>
+          (typeFilter === null || element.type === typeFilter) &&
+          (element.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+            element.type.toLowerCase().includes(searchQuery.toLowerCase())),
+      ),
+    [elements, typeFilter, searchQuery],
   )
 
   const getElementIcon = (type: string) => {
@@ -38,11 +105,49 @@ export function KmlElementsList({
         return <LineChart className="h-4 w-4 text-[#3700ff]" />
       case "Polygon":
         return <Hexagon className="h-4 w-4 text-[#42eedc]" />
+      case "MultiGeometry":
+        return <Shapes className="h-4 w-4 text-[#110043]" />
+      case "Track":
+        return <Route className="h-4 w-4 text-[#3700ff]" />
+      case "GroundOverlay":
+        return <Image className="h-4 w-4 text-[#ff3f19]" />
       default:
-        return <Map className="h-4 w-4 text-gray-400" />
+        return <MapIcon className="h-4 w-4 text-gray-400" />
     }
   }
 
+  const isFiltering = typeFilter !== null || searchQuery !== ""
+
+  // Share the filtered subset, e.g. for export; the filter is lost when the list unmounts
+  useEffect(() => {
+    onFilteredElementsChange?.(isFiltering ? filteredElements : null)
+  }, [filteredElements, isFiltering, onFilteredElementsChange])
+
+  useEffect(() => {
+    return () => onFilteredElementsChange?.(null)
+  }, [onFilteredElementsChange])
+
+  useEffect(() => {
+    onFiltersChange?.({ searchQuery, typeFilter })
+  }, [searchQuery, typeFilter, onFiltersChange])
+
+  // Group filtered elements by their parent folder
+  const elementsByFolder = filteredElements.reduce((acc, element) => {
+    const key = element.folderId ?? ""
+    const folderElements = acc.get(key)
+    if (folderElements) {
+      folderElements.push(element)
+    } else {
+      acc.set(key, [element])
+    }
+    return acc
+  }, new Map<string, KmlElement[]>())
+
+  // Count filtered elements inside a folder, including its subfolders
+  const countFolderElements = (folder: KmlFolder): number =>
+    (elementsByFolder.get(folder.id)?.length || 0) +
+    folder.children.reduce((sum, child) => sum + countFolderElements(child), 0)
+
   // Count elements by type
   const elementCounts = elements.reduce(
     (acc, element) => {
@@ -52,9 +157,90 @@ export function KmlElementsList({
     {} as Record<string, number>,
   )
 
+  const renderElement = (element: KmlElement, depth: number) => {
+    const isSelected = selectedElement?.id === element.id
+    const isHidden = isFolderHidden(element.folderId, foldersById, hiddenFolderIds)
+
+    return (
+      <button
+        key={element.id}
+        className={`flex items-center gap-3 rounded-lg px-3 py-3 text-left text-sm transition-colors ${
+          isSelected ? "bg-[#3700ff] text-white" : "hover:bg-gray-100"
+        } ${isHidden && !isSelected ? "opacity-50" : ""}`}
+        style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+        onClick={() => onElementSelect(element)}
+      >
+        {isSelected ? <div className="text-white">{getElementIcon(element.type)}</div> : getElementIcon(element.type)}
+        <div className="flex-1 truncate">
+          <div className="font-medium">{element.name || `Unnamed ${element.type}`}</div>
+          <div className={`text-xs ${isSelected ? "text-white/70" : "text-gray-500"}`}>
+            {element.type}
+            {(element.type === "LineString" || element.type === "Track") && element.metadata?.length
+              ? ` • ${element.metadata.length.toFixed(2)} km`
+              : ""}
+            {element.type === "Polygon" && element.metadata?.area ? ` • ${element.metadata.area.toFixed(2)} km²` : ""}
+            {element.type === "MultiGeometry" ? ` • ${element.geometries?.length || 0} partes` : ""}
+          </div>
+        </div>
+      </button>
+    )
+  }
+
+  const renderFolder = (folder: KmlFolder, depth: number): React.ReactNode => {
+    const count = countFolderElements(folder)
+    // While filtering, only show folders that contain matches
+    if (isFiltering && count === 0) return null
+
+    const isExpanded = isFiltering || expandedFolderIds.has(folder.id)
+    const isHidden = hiddenFolderIds.has(folder.id)
+    const isParentHidden = isFolderHidden(folder.parentId, foldersById, hiddenFolderIds)
+
+    return (
+      <div key={folder.id} className="grid gap-1">
+        <div
+          className={`flex items-center gap-2 rounded-lg py-2 pr-2 text-sm hover:bg-gray-100 ${
+            isParentHidden ? "opacity-50" : ""
+          }`}
+          style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+        >
+          <button
+            className="flex flex-1 items-center gap-2 truncate text-left"
+            onClick={() => toggleFolderExpanded(folder.id)}
+            aria-expanded={isExpanded}
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+            ) : (
+              <ChevronRight className="h-4 w-4 shrink-0 text-gray-500" />
+            )}
+            <Folder className="h-4 w-4 shrink-0 text-[#110043]" />
+            <span className="truncate font-medium">{folder.name || "Pasta sem nome"}</span>
+            <span className="text-xs text-gray-500">({count})</span>
+          </button>
+          <button
+            className="rounded p-1 text-gray-500 hover:bg-gray-200 hover:text-gray-900"
+            onClick={() => onFolderVisibilityToggle(folder.id)}
+            aria-label={isHidden ? "Mostrar pasta" : "Ocultar pasta"}
+            title={isHidden ? "Mostrar pasta" : "Ocultar pasta"}
+          >
+            {isHidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </button>
+        </div>
+
+        {isExpanded && (
+          <>
+            {folder.children.map((child) => renderFolder(child, depth + 1))}
+            {(elementsByFolder.get(folder.id) || []).map((element) => renderElement(element, depth + 1))}
+          </>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="flex h-full flex-col">
       <div className="border-b p-4">
+        {layerSelector && <div className="mb-3">{layerSelector}</div>}
         <div className="relative mb-3">
           <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
           <Input
@@ -106,39 +292,12 @@ export function KmlElementsList({
         <div className="p-2">
           {filteredElements.length > 0 ? (
             <div className="grid gap-1">
-              {filteredElements.map((element) => (
-                <button
-                  key={element.id}
-                  className={`flex items-center gap-3 rounded-lg px-3 py-3 text-left text-sm transition-colors ${
-                    selectedElement?.id === element.id ? "bg-[#3700ff] text-white" : "hover:bg-gray-100"
-                  }`}
-                  onClick={() => onElementSelect(element)}
-                >
-                  {selectedElement?.id === element.id ? (
-                    <div className="text-white">{getElementIcon(element.type)}</div>
-                  ) : (
-                    getElementIcon(element.type)
-                  )}
-                  <div className="flex-1 truncate">
-                    <div className="font-medium">{element.name || `Unnamed ${element.type}`}</div>
-                    <div
-                      className={`text-xs ${selectedElement?.id === element.id ? "text-white/70" : "text-gray-500"}`}
-                    >
-                      {element.type}
-                      {element.type === "LineString" && element.metadata?.length
-                        ? ` • ${element.metadata.length.toFixed(2)} km`
-                        : ""}
-                      {element.type === "Polygon" && element.metadata?.area
-                        ? ` • ${element.metadata.area.toFixed(2)} km²`
-                        : ""}
-                    </div>
-                  </div>
-                </button>
-              ))}
+              {folders.map((folder) => renderFolder(folder, 0))}
+              {(elementsByFolder.get("") || []).map((element) => renderElement(element, 0))}
             </div>
           ) : (
             <div className="flex h-40 flex-col items-center justify-center text-center p-4">
-              <Map className="h-8 w-8 text-gray-300" />
+              <MapIcon className="h-8 w-8 text-gray-300" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhum elemento encontrado</h3>
               <p className="mt-1 text-xs text-gray-500">Tente ajustar sua busca ou filtros</p>
             </div>
@@ -146,11 +305,29 @@ export function KmlElementsList({
         </div>
       </ScrollArea>
 
-      <div className="border-t p-4">
+      <div className="flex items-center justify-between gap-2 border-t p-4">
         <div className="text-xs text-gray-500">
           {filteredElements.length} de {elements.length} elementos
         </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          disabled={filteredElements.length === 0}
+          onClick={() => setIsExportDialogOpen(true)}
+          title="Exportar os elementos listados para CSV ou XLSX"
+        >
+          <Sheet className="mr-1.5 h-4 w-4" />
+          Exportar tabela
+        </Button>
       </div>
+
+      <AttributeExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        elements={filteredElements}
+        fileName={fileName}
+      />
     </div>
   )
 }
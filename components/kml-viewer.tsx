@@ -1,27 +1,199 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
-import { MapIcon, Loader2, Navigation, Locate } from "lucide-react"
-import type { KmlData, KmlElement } from "@/lib/types"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { MapIcon, Loader2, Navigation, Locate, Group } from "lucide-react"
+import type { KmlElement, MapView, ParseProgress } from "@/lib/types"
 import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { useToast } from "@/components/ui/use-toast"
+import {
+  DEFAULT_BASE_LAYER,
+  MAP_MAX_ZOOM,
+  MBTILES_BASE_LAYER,
+  resolveBaseLayer,
+  type BaseLayerSelection,
+} from "@/lib/base-layers"
+import type { DataLayer } from "@/lib/data-layers"
+import type { RecentFile } from "@/lib/recent-files"
+import { createMbtilesLayer, type MbtilesSource } from "@/lib/mbtiles"
+import { fetchWmsFeatureInfo, type WmsFeatureInfo, type WmsLayer } from "@/lib/wms"
+import { getHiddenElementIds } from "@/lib/kml-folders"
+import { createElementLayer, getLayerBounds, saveLayerStyle } from "@/lib/leaflet-layers"
+import type { TrackPosition } from "@/lib/track-playback"
+import { isElementInTimeRange, type TimeRange } from "@/lib/time-filter"
+import { TrackPlaybackControl } from "@/components/track-playback-control"
+import { RecentFilesList } from "@/components/recent-files-list"
+import { BaseLayerSwitcher } from "@/components/base-layer-switcher"
+
+// Above this many elements, vectors are drawn on a single canvas instead of one DOM node each
+const HIGH_VOLUME_THRESHOLD = 2000
+
+// Size in MB with one decimal, for the loading progress
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1)
+
+// Clustered points live in the cluster group of their data layer instead of directly on the map
+function getLayerContainer(mapState: any, elementId: string, isClusteringEnabled: boolean): any {
+  return isClusteringEnabled && mapState.pointIds.has(elementId)
+    ? mapState.dataLayers.get(mapState.elementLayerIds.get(elementId)).clusterGroup
+    : mapState.instance
+}
+
+// Remove everything drawn for a data layer
+// Leaflet has no way to remove a pane, so the empty pane is left in place.
+function removeRenderedLayer(mapState: any, layerId: string) {
+  const rendered = mapState.dataLayers.get(layerId)
+  if (!rendered) return
+
+  const { instance: map, layers, pointIds, elementLayerIds } = mapState
+
+  rendered.clusterGroup.clearLayers()
+  map.removeLayer(rendered.clusterGroup)
+  rendered.elementIds.forEach((elementId: string) => {
+    const layer = layers.get(elementId)
+    if (layer && map.hasLayer(layer)) {
+      map.removeLayer(layer)
+    }
+    layers.delete(elementId)
+    pointIds.delete(elementId)
+    elementLayerIds.delete(elementId)
+  })
+
+  if (rendered.renderer) {
+    map.removeLayer(rendered.renderer)
+  }
+
+  mapState.dataLayers.delete(layerId)
+}
+
+// WMS layers share a pane above the tiles (200) and below the data layers (400 and up)
+const WMS_PANE = "wms-layers"
+const NO_WMS_LAYERS: WmsLayer[] = [] // Default prop, stable so the WMS effects don't run on every render
+
+// Popup content for what the WMS layers have at a clicked point
+// Responses come from other servers, so HTML is shown in a sandboxed frame and everything else as text.
+function createFeatureInfoContent(results: { wmsLayer: WmsLayer; info?: WmsFeatureInfo | null; error?: unknown }[]) {
+  const content = document.createElement("div")
+  content.className = "kml-popup max-h-80 overflow-auto"
+
+  results.forEach(({ wmsLayer, info, error }) => {
+    const title = document.createElement("h3")
+    title.className = "font-medium mb-1 text-base"
+    title.textContent = wmsLayer.title
+    content.appendChild(title)
+
+    const message = document.createElement("p")
+    message.className = "text-sm mb-2 text-gray-500"
+
+    if (error) {
+      message.textContent = "Não foi possível consultar esta camada"
+      content.appendChild(message)
+    } else if (!info) {
+      message.textContent = "Nenhuma feição encontrada"
+      content.appendChild(message)
+    } else if (info.type === "features") {
+      info.features.forEach((feature) => {
+        const table = document.createElement("table")
+        table.className = "text-xs mb-2 w-full"
+        Object.entries(feature).forEach(([key, value]) => {
+          const row = table.insertRow()
+          const keyCell = row.insertCell()
+          keyCell.className = "pr-2 align-top font-medium text-gray-600"
+          keyCell.textContent = key
+          row.insertCell().textContent = value
+        })
+        content.appendChild(table)
+      })
+    } else if (info.type === "html") {
+      const frame = document.createElement("iframe")
+      frame.setAttribute("sandbox", "")
+      frame.className = "mb-2 h-48 w-full border-0"
+      frame.srcdoc = info.html
+      content.appendChild(frame)
+    } else {
+      const text = document.createElement("pre")
+      text.className = "text-xs mb-2 whitespace-pre-wrap"
+      text.textContent = info.text
+      content.appendChild(text)
+    }
+  })
+
+  return content
+}
 
 interface KmlViewerProps {
-  kmlData: KmlData | null
+  dataLayers: DataLayer[] // Top layer first
+  focusLayerRequest?: { layerId: string } | null // A new object zooms to the layer, even if it is the same layer
+  viewRequest?: MapView | null // A new object moves the map to that view
+  baseLayer?: BaseLayerSelection
+  onBaseLayerChange?: (selection: BaseLayerSelection) => void // Shows the base layer switcher
+  mbtiles?: MbtilesSource | null // Drawn when the MBTiles base layer is selected
+  onMbtilesOpen?: (file: File) => void
+  onOfflineDownload?: () => void // Offered in the base layer switcher
+  wmsLayers?: WmsLayer[] // Top layer first, queried with GetFeatureInfo where the map is clicked
+  onViewChange?: (view: MapView) => void // Called when the map stops moving
+  recentFiles?: RecentFile[] // Offered while no file is loaded
+  onRecentFileOpen?: (recentFile: RecentFile) => void
+  onRecentFileRemove?: (fileId: string) => void
   isLoading: boolean
+  loadingProgress?: ParseProgress | null
+  onLoadingCancel?: () => void // Stops the file being parsed and the ones waiting for it
   selectedElement: KmlElement | null
   onElementSelect: (element: KmlElement) => void
+  onElementLinkCopy?: (element: KmlElement) => Promise<void> // Offered in the popup of each element
+  hiddenFolderIds?: Set<string>
+  overlayOpacities?: Record<string, number>
+  timeRange?: TimeRange | null
+  highVolumeThreshold?: number
   isMobile?: boolean
 }
 
-export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect, isMobile = false }: KmlViewerProps) {
+export function KmlViewer({
+  dataLayers,
+  focusLayerRequest,
+  viewRequest,
+  baseLayer = DEFAULT_BASE_LAYER,
+  onBaseLayerChange,
+  mbtiles = null,
+  onMbtilesOpen,
+  onOfflineDownload,
+  wmsLayers = NO_WMS_LAYERS,
+  onViewChange,
+  recentFiles = [],
+  onRecentFileOpen,
+  onRecentFileRemove,
+  isLoading,
+  loadingProgress,
+  onLoadingCancel,
+  selectedElement,
+  onElementSelect,
+  onElementLinkCopy,
+  hiddenFolderIds,
+  overlayOpacities,
+  timeRange,
+  highVolumeThreshold = HIGH_VOLUME_THRESHOLD,
+  isMobile = false,
+}: KmlViewerProps) {
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const mapRef = useRef<any>(null)
   const [mapLoaded, setMapLoaded] = useState(false)
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null)
   const [isLocating, setIsLocating] = useState(false)
   const userMarkerRef = useRef<any>(null)
+  const playbackMarkerRef = useRef<any>(null)
+  const restoreHighlightRef = useRef<(() => void) | null>(null)
+  const [isClusteringEnabled, setIsClusteringEnabled] = useState(true)
+  // Mirrors the state once the layers have been moved, for effects that place layers
+  const isClusteringEnabledRef = useRef(true)
+  // Layers outlive the render they were created in, so their event handlers read these refs
+  const onElementSelectRef = useRef(onElementSelect)
+  const onViewChangeRef = useRef(onViewChange)
+  const onElementLinkCopyRef = useRef(onElementLinkCopy)
+  const userLocationRef = useRef(userLocation)
+  onElementSelectRef.current = onElementSelect
+  onViewChangeRef.current = onViewChange
+  onElementLinkCopyRef.current = onElementLinkCopy
+  userLocationRef.current = userLocation
   const { toast } = useToast()
 
   // Initialize map when component mounts
@@ -35,6 +207,9 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
           // Import Leaflet CSS
           await import("leaflet/dist/leaflet.css")
 
+          // The clustering plugin extends the global L, so it is loaded after Leaflet
+          const { createClusterGroup } = await import("@/lib/leaflet-cluster")
+
           // Create map instance
           if (mapContainerRef.current) {
             const map = L.map(mapContainerRef.current, {
@@ -44,14 +219,10 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
               tapTolerance: 15, // Increase tap tolerance for mobile
               touchZoom: true, // Enable touch zoom
               dragging: true, // Enable dragging
-            }).setView([0, 0], 2)
-
-            // Add tile layer
-            L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-              attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-              maxZoom: 19,
+              // Set on the map rather than taken from the base layer, which can be changed or removed
               minZoom: 2,
-            }).addTo(map)
+              maxZoom: MAP_MAX_ZOOM,
+            }).setView([0, 0], 2)
 
             // Add zoom control to bottom right if mobile
             if (isMobile) {
@@ -62,11 +233,22 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
                 .addTo(map)
             }
 
+            map.on("moveend", () => {
+              const center = map.getCenter()
+              onViewChangeRef.current?.({ center: [center.lat, center.lng], zoom: map.getZoom() })
+            })
+
             mapRef.current = {
               instance: map,
               L: L,
-              layers: new Map(),
-              bounds: null,
+              createClusterGroup,
+              layers: new Map(), // Element id -> Leaflet layer
+              pointIds: new Set(),
+              dataLayers: new Map(), // Data layer id -> its pane, renderer, cluster group, bounds and element ids
+              elementLayerIds: new Map(), // Element id -> data layer id
+              baseLayer: null, // Tile layer of the chosen base layer, if any
+              wmsLayers: new Map(), // WMS layer id -> its Leaflet layer
+              renderKey: null,
             }
 
             setMapLoaded(true)
@@ -198,220 +380,353 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
       .bindTooltip("Sua localização atual", { permanent: false, direction: "top" })
   }, [mapLoaded, userLocation])
 
-  // Render KML data on map when data changes
+  // Render each data layer in its own pane, rebuilding only the layers that were added or whose data changed
   useEffect(() => {
     if (!mapLoaded || !mapRef.current) return
 
-    const { instance: map, L, layers } = mapRef.current
+    const mapState = mapRef.current
+    const { instance: map, L, layers, pointIds, elementLayerIds } = mapState
+    const previousLayerIds = new Set<string>(mapState.dataLayers.keys())
 
-    // Clear existing layers
-    layers.forEach((layer: any) => {
-      map.removeLayer(layer)
+    // Layers are drawn differently on mobile and above the high-volume threshold, so these rebuild everything
+    const renderKey = `${isMobile}:${highVolumeThreshold}`
+    if (mapState.renderKey !== renderKey) {
+      previousLayerIds.forEach((layerId) => removeRenderedLayer(mapState, layerId))
+      mapState.renderKey = renderKey
+    }
+
+    // Removed layers, and layers whose data was replaced
+    const currentLayers = new Map(dataLayers.map((dataLayer) => [dataLayer.id, dataLayer]))
+    Array.from(mapState.dataLayers.keys() as Iterable<string>).forEach((layerId) => {
+      if (currentLayers.get(layerId)?.kmlData !== mapState.dataLayers.get(layerId).kmlData) {
+        removeRenderedLayer(mapState, layerId)
+      }
     })
-    layers.clear()
+    restoreHighlightRef.current = null
+
+    // Popups are built when opened, so no DOM is created for elements that are never clicked
+    const createPopupContent = (element: KmlElement) => {
+      const popupContent = document.createElement("div")
+      popupContent.className = "kml-popup" // Add class for styling
+
+      // Add title if available
+      if (element.name) {
+        const title = document.createElement("h3")
+        title.className = "font-medium mb-1 text-base"
+        title.textContent = element.name
+        popupContent.appendChild(title)
+      }
 
-    // If no KML data, just return
-    if (!kmlData || !kmlData.elements || kmlData.elements.length === 0) {
-      console.log("No KML data to render")
-      return
-    }
+      // Add description if available
+      if (element.description) {
+        const desc = document.createElement("p")
+        desc.className = "text-sm mb-2"
+        desc.textContent = element.description
+        popupContent.appendChild(desc)
+      }
 
-    console.log(`Rendering ${kmlData.elements.length} KML elements on map`)
+      // Add navigation button
+      if (element.type === "Point") {
+        const navButton = document.createElement("button")
+        navButton.className =
+          "flex items-center gap-1 text-sm bg-[#3700ff] hover:bg-[#3700ff]/90 text-white px-3 py-2 rounded-md mt-1 w-full justify-center"
+        navButton.innerHTML =
+          '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="mr-1"><polygon points="3 11 22 2 13 21 11 13 3 11"></polygon></svg> Navegar até aqui'
+
+        navButton.onclick = (e) => {
+          e.stopPropagation()
+
+          const [lng, lat] = element.coordinates
+          const destination = `${lat},${lng}`
+          let googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${destination}`
+
+          // If we have user's location, use it as origin
+          if (userLocationRef.current) {
+            const [userLat, userLng] = userLocationRef.current
+            googleMapsUrl += `&origin=${userLat},${userLng}`
+          }
 
-    // Create bounds object to fit map to data
-    const bounds = L.latLngBounds([])
-    let hasValidBounds = false
+          // Open in new tab
+          window.open(googleMapsUrl, "_blank")
+        }
 
-    // Render KML elements
-    kmlData.elements.forEach((element) => {
-      let layer
+        popupContent.appendChild(navButton)
+      }
 
-      try {
-        switch (element.type) {
-          case "Point":
-            if (element.coordinates && element.coordinates.length >= 2) {
-              const [lng, lat] = element.coordinates
-              layer = L.marker([lat, lng], {
-                title: element.name || "Point",
-              })
-
-              bounds.extend([lat, lng])
-              hasValidBounds = true
-            }
-            break
-
-          case "LineString":
-            if (element.coordinates && element.coordinates.length >= 2) {
-              const points = element.coordinates.map(([lng, lat]) => [lat, lng])
-              layer = L.polyline(points, {
-                color: element.style?.color || "#3700ff",
-                weight: element.style?.width || 3,
-                opacity: element.style?.opacity || 1,
-              })
-
-              points.forEach((point) => {
-                bounds.extend(point)
-                hasValidBounds = true
-              })
-            }
-            break
-
-          case "Polygon":
-            if (element.coordinates && element.coordinates.length > 0) {
-              const rings = element.coordinates.map((ring) => ring.map(([lng, lat]) => [lat, lng]))
-
-              layer = L.polygon(rings, {
-                color: element.style?.strokeColor || "#3700ff",
-                weight: element.style?.strokeWidth || 1,
-                opacity: element.style?.strokeOpacity || 1,
-                fillColor: element.style?.fillColor || "#42eedc",
-                fillOpacity: element.style?.fillOpacity || 0.2,
-              })
-
-              rings[0].forEach((point) => {
-                bounds.extend(point)
-                hasValidBounds = true
-              })
-            }
-            break
+      // Add details button
+      const detailsButton = document.createElement("button")
+      detailsButton.className =
+        "flex items-center gap-1 text-sm bg-slate-200 hover:bg-slate-300 text-slate-800 px-3 py-2 rounded-md mt-2 w-full justify-center"
+      detailsButton.innerHTML =
+        '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="mr-1"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg> Ver detalhes'
+
+      detailsButton.onclick = (e) => {
+        e.stopPropagation()
+        onElementSelectRef.current(element)
+        map.closePopup()
+      }
 
-          default:
-            console.warn(`Unsupported KML element type: ${element.type}`)
+      popupContent.appendChild(detailsButton)
+
+      // Add copy link button
+      if (onElementLinkCopyRef.current) {
+        const linkButton = document.createElement("button")
+        linkButton.className =
+          "flex items-center gap-1 text-sm bg-slate-200 hover:bg-slate-300 text-slate-800 px-3 py-2 rounded-md mt-2 w-full justify-center"
+        linkButton.innerHTML =
+          '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="mr-1"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path></svg> Copiar link'
+
+        linkButton.onclick = (e) => {
+          e.stopPropagation()
+          onElementLinkCopyRef.current?.(element).then(
+            () => {
+              linkButton.textContent = "Link copiado"
+            },
+            (error) => console.error("Error copying link:", error),
+          )
         }
-      } catch (error) {
-        console.error(`Error rendering element ${element.id}:`, error)
+
+        popupContent.appendChild(linkButton)
+      }
+
+      return popupContent
+    }
+
+    const renderDataLayer = (dataLayer: DataLayer) => {
+      const { kmlData } = dataLayer
+      console.log(`Rendering ${kmlData.elements.length} elements of ${dataLayer.name} on map`)
+
+      // Each layer has its own pane, so it can be stacked, faded and hidden as a whole
+      const paneName = `data-layer-${dataLayer.id}`
+      const pane = map.getPane(paneName) || map.createPane(paneName)
+
+      // Large files share one canvas, which also hit-tests clicks (with some tolerance for thin lines and small points)
+      const renderer =
+        kmlData.elements.length > highVolumeThreshold
+          ? L.canvas({ pane: paneName, padding: 0.5, tolerance: isMobile ? 10 : 3 })
+          : null
+
+      const clusterGroup = mapState.createClusterGroup(L, paneName)
+      if (isClusteringEnabledRef.current) {
+        map.addLayer(clusterGroup)
       }
 
-      if (layer) {
+      const rendered = {
+        kmlData,
+        pane,
+        renderer,
+        clusterGroup,
+        bounds: null as any,
+        elementIds: [] as string[],
+      }
+      mapState.dataLayers.set(dataLayer.id, rendered)
+
+      const bounds = L.latLngBounds([])
+
+      // Points are added to the cluster group in one go, which is much faster than one at a time
+      const clusteredLayers: any[] = []
+
+      kmlData.elements.forEach((element) => {
+        let layer
+
         try {
-          // Create custom popup content with navigation option
-          const popupContent = document.createElement("div")
-          popupContent.className = "kml-popup" // Add class for styling
-
-          // Add title if available
-          if (element.name) {
-            const title = document.createElement("h3")
-            title.className = "font-medium mb-1 text-base"
-            title.textContent = element.name
-            popupContent.appendChild(title)
-          }
+          layer = createElementLayer(L, element, kmlData.resources, { pane: paneName, renderer })
 
-          // Add description if available
-          if (element.description) {
-            const desc = document.createElement("p")
-            desc.className = "text-sm mb-2"
-            desc.textContent = element.description
-            popupContent.appendChild(desc)
+          if (layer) {
+            bounds.extend(getLayerBounds(L, layer))
+          } else if (element.type === "GroundOverlay") {
+            console.warn(`Could not resolve image for ground overlay ${element.id}: ${element.overlay?.href}`)
+          } else {
+            console.warn(`Unsupported KML element type: ${element.type}`)
           }
+        } catch (error) {
+          console.error(`Error rendering element ${element.id}:`, error)
+        }
 
-          // Add navigation button
-          if (element.type === "Point") {
-            const navButton = document.createElement("button")
-            navButton.className =
-              "flex items-center gap-1 text-sm bg-[#3700ff] hover:bg-[#3700ff]/90 text-white px-3 py-2 rounded-md mt-1 w-full justify-center"
-            navButton.innerHTML =
-              '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="mr-1"><polygon points="3 11 22 2 13 21 11 13 3 11"></polygon></svg> Navegar até aqui'
-
-            navButton.onclick = (e) => {
-              e.stopPropagation()
-
-              const [lng, lat] = element.coordinates
-              const destination = `${lat},${lng}`
-              let googleMapsUrl = `https://www.google.com/maps/dir/?api=1&destination=${destination}`
-
-              // If we have user's location, use it as origin
-              if (userLocation) {
-                const [userLat, userLng] = userLocation
-                googleMapsUrl += `&origin=${userLat},${userLng}`
-              }
-
-              // Open in new tab
-              window.open(googleMapsUrl, "_blank")
+        if (layer) {
+          try {
+            // Add popup with custom content
+            const popupOptions = {
+              maxWidth: isMobile ? 280 : 300,
+              className: "kml-popup-container",
             }
 
-            popupContent.appendChild(navButton)
-          }
+            layer.bindPopup(() => createPopupContent(element), popupOptions)
 
-          // Add details button
-          const detailsButton = document.createElement("button")
-          detailsButton.className =
-            "flex items-center gap-1 text-sm bg-slate-200 hover:bg-slate-300 text-slate-800 px-3 py-2 rounded-md mt-2 w-full justify-center"
-          detailsButton.innerHTML =
-            '<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" class="mr-1"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="16" x2="12" y2="12"></line><line x1="12" y1="8" x2="12.01" y2="8"></line></svg> Ver detalhes'
-
-          detailsButton.onclick = (e) => {
-            e.stopPropagation()
-            onElementSelect(element)
-            map.closePopup()
-          }
+            // Add click handler to select element
+            layer.on("click", () => {
+              onElementSelectRef.current(element)
+            })
 
-          popupContent.appendChild(detailsButton)
+            // Store layer reference
+            layers.set(element.id, layer)
+            elementLayerIds.set(element.id, dataLayer.id)
+            rendered.elementIds.push(element.id)
+            if (element.type === "Point") {
+              pointIds.add(element.id)
+            }
 
-          // Add popup with custom content
-          const popupOptions = {
-            maxWidth: isMobile ? 280 : 300,
-            className: "kml-popup-container",
+            // Add layer to map
+            if (getLayerContainer(mapState, element.id, isClusteringEnabledRef.current) === clusterGroup) {
+              clusteredLayers.push(layer)
+            } else {
+              layer.addTo(map)
+            }
+          } catch (error) {
+            console.error(`Error adding layer for element ${element.id}:`, error)
           }
+        }
+      })
 
-          layer.bindPopup(popupContent, popupOptions)
+      clusterGroup.addLayers(clusteredLayers)
+      rendered.bounds = bounds.isValid() ? bounds : null
+    }
 
-          // Add click handler to select element
-          layer.on("click", () => {
-            onElementSelect(element)
-          })
+    // Fit the map to the layers that were just loaded
+    const newBounds = L.latLngBounds([])
 
-          // Add layer to map
-          layer.addTo(map)
+    dataLayers.forEach((dataLayer) => {
+      if (mapState.dataLayers.has(dataLayer.id)) return
 
-          // Store layer reference
-          layers.set(element.id, layer)
-        } catch (error) {
-          console.error(`Error adding layer for element ${element.id}:`, error)
-        }
+      renderDataLayer(dataLayer)
+
+      const bounds = mapState.dataLayers.get(dataLayer.id).bounds
+      if (bounds && !previousLayerIds.has(dataLayer.id)) {
+        newBounds.extend(bounds)
       }
     })
 
-    // Fit map to bounds if we have valid coordinates
-    if (hasValidBounds) {
+    if (newBounds.isValid()) {
       try {
-        map.fitBounds(bounds, { padding: [50, 50] })
+        map.fitBounds(newBounds, { padding: [50, 50] })
       } catch (error) {
         console.error("Error fitting map to bounds:", error)
       }
     }
 
-    // Store bounds for later use
-    mapRef.current.bounds = hasValidBounds ? bounds : null
-
     // Re-add user location marker if it exists
-    if (userMarkerRef.current && userLocation) {
+    if (userMarkerRef.current && userLocationRef.current) {
       userMarkerRef.current.addTo(map)
     }
-  }, [kmlData, mapLoaded, onElementSelect, isMobile])
+  }, [dataLayers, mapLoaded, isMobile, highVolumeThreshold])
 
-  // Highlight selected element
+  // Stack, fade and show or hide each data layer through its pane
   useEffect(() => {
     if (!mapLoaded || !mapRef.current) return
 
-    const { layers } = mapRef.current
+    dataLayers.forEach((dataLayer, index) => {
+      const rendered = mapRef.current.dataLayers.get(dataLayer.id)
+      if (!rendered) return
+
+      // The first layer of the list is drawn on top, all of them above the tiles (200) and below the markers (600)
+      rendered.pane.style.zIndex = String(400 + dataLayers.length - index)
+      rendered.pane.style.opacity = String(dataLayer.opacity)
+      rendered.pane.style.display = dataLayer.visible ? "" : "none"
+    })
+  }, [dataLayers, mapLoaded])
 
-    // Reset all layers to default style
-    layers.forEach((layer: any) => {
-      if (layer.setStyle) {
-        layer.setStyle({
-          weight: 3,
-          color: "#3700ff",
-          opacity: 1,
-          fillOpacity: 0.2,
+  // Show or hide layers according to folder visibility and the time filter
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const mapState = mapRef.current
+    const { instance: map, layers } = mapState
+
+    mapState.dataLayers.forEach((rendered: any) => {
+      const { kmlData, clusterGroup } = rendered
+      const hiddenElementIds = getHiddenElementIds(kmlData, hiddenFolderIds ?? new Set())
+
+      if (timeRange) {
+        kmlData.elements.forEach((element: KmlElement) => {
+          if (!isElementInTimeRange(element, timeRange)) {
+            hiddenElementIds.add(element.id)
+          }
         })
       }
+
+      // Clustered points are added and removed in bulk
+      const clusteredToAdd: any[] = []
+      const clusteredToRemove: any[] = []
+
+      rendered.elementIds.forEach((elementId: string) => {
+        const layer = layers.get(elementId)
+        const isHidden = hiddenElementIds.has(elementId)
+        const container = getLayerContainer(mapState, elementId, isClusteringEnabledRef.current)
+
+        if (container === clusterGroup) {
+          if (isHidden && clusterGroup.hasLayer(layer)) {
+            clusteredToRemove.push(layer)
+          } else if (!isHidden && !clusterGroup.hasLayer(layer)) {
+            clusteredToAdd.push(layer)
+          }
+        } else if (isHidden && map.hasLayer(layer)) {
+          map.removeLayer(layer)
+        } else if (!isHidden && !map.hasLayer(layer)) {
+          layer.addTo(map)
+        }
+      })
+
+      clusterGroup.removeLayers(clusteredToRemove)
+      clusterGroup.addLayers(clusteredToAdd)
+    })
+  }, [dataLayers, hiddenFolderIds, timeRange, mapLoaded])
+
+  // Move the visible points between the map and the cluster group when clustering is toggled
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const { instance: map, layers, pointIds } = mapRef.current
+    if (isClusteringEnabled === isClusteringEnabledRef.current) return
+
+    mapRef.current.dataLayers.forEach(({ clusterGroup, elementIds }: any) => {
+      const points = elementIds
+        .filter((elementId: string) => pointIds.has(elementId))
+        .map((elementId: string) => layers.get(elementId))
+
+      if (isClusteringEnabled) {
+        const visiblePoints = points.filter((layer: any) => map.hasLayer(layer))
+        visiblePoints.forEach((layer: any) => map.removeLayer(layer))
+        clusterGroup.addLayers(visiblePoints)
+        map.addLayer(clusterGroup)
+      } else {
+        const visiblePoints = points.filter((layer: any) => clusterGroup.hasLayer(layer))
+        clusterGroup.clearLayers()
+        map.removeLayer(clusterGroup)
+        visiblePoints.forEach((layer: any) => map.addLayer(layer))
+      }
     })
 
+    isClusteringEnabledRef.current = isClusteringEnabled
+  }, [isClusteringEnabled, mapLoaded])
+
+  // Apply ground overlay opacity changes from the details panel
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current || !overlayOpacities) return
+
+    const { layers } = mapRef.current
+
+    Object.entries(overlayOpacities).forEach(([elementId, opacity]) => {
+      layers.get(elementId)?.setOpacity?.(opacity)
+    })
+  }, [dataLayers, overlayOpacities, mapLoaded])
+
+  // Highlight selected element
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const { layers } = mapRef.current
+
+    // Restore the previously highlighted layer, touching a single layer even in files with many elements
+    restoreHighlightRef.current?.()
+    restoreHighlightRef.current = null
+
     // Highlight selected element
     if (selectedElement) {
       const layer = layers.get(selectedElement.id)
-      if (layer) {
+      const container = getLayerContainer(mapRef.current, selectedElement.id, isClusteringEnabledRef.current)
+      if (layer && container.hasLayer(layer)) {
         if (layer.setStyle) {
+          restoreHighlightRef.current = saveLayerStyle(layer)
           layer.setStyle({
             weight: 5,
             color: "#ff3f19",
@@ -420,19 +735,202 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
           })
         }
 
-        // Open popup
-        layer.openPopup()
+        // Open popup, zooming in or spiderfying first if the point is inside a cluster
+        if (container !== mapRef.current.instance) {
+          container.zoomToShowLayer(layer, () => layer.openPopup())
+        } else {
+          layer.openPopup()
+        }
       }
     }
   }, [selectedElement, mapLoaded])
 
-  // Reset view button handler
+  // Move the track playback marker, creating it on first use
+  const handleTrackPositionChange = useCallback((position: TrackPosition | null) => {
+    if (!mapRef.current) return
+
+    const { instance: map, L } = mapRef.current
+
+    if (!position) {
+      if (playbackMarkerRef.current) {
+        map.removeLayer(playbackMarkerRef.current)
+        playbackMarkerRef.current = null
+      }
+      return
+    }
+
+    if (playbackMarkerRef.current) {
+      playbackMarkerRef.current.setLatLng(position.latLng)
+    } else {
+      playbackMarkerRef.current = L.circleMarker(position.latLng, {
+        radius: 8,
+        color: "#ffffff",
+        weight: 3,
+        fillColor: "#ff3f19",
+        fillOpacity: 1,
+        interactive: false,
+      }).addTo(map)
+    }
+  }, [])
+
+  // Zoom to a layer when the layer manager asks for it
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current || !focusLayerRequest) return
+
+    const bounds = mapRef.current.dataLayers.get(focusLayerRequest.layerId)?.bounds
+    if (bounds) {
+      mapRef.current.instance.fitBounds(bounds, { padding: [50, 50] })
+    }
+  }, [focusLayerRequest, mapLoaded])
+
+  // Draw the chosen base layer under the data
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const mapState = mapRef.current
+    const { instance: map, L } = mapState
+
+    if (mapState.baseLayer) {
+      map.removeLayer(mapState.baseLayer)
+      mapState.baseLayer = null
+    }
+
+    if (baseLayer.id === MBTILES_BASE_LAYER) {
+      if (mbtiles) {
+        mapState.baseLayer = createMbtilesLayer(L, mbtiles, { maxZoom: MAP_MAX_ZOOM, minZoom: 2 }).addTo(map)
+      }
+      return
+    }
+
+    const resolved = resolveBaseLayer(baseLayer)
+    if (!resolved) return
+
+    mapState.baseLayer = L.tileLayer(resolved.url, {
+      attribution: resolved.attribution,
+      subdomains: resolved.subdomains ?? "abc",
+      maxNativeZoom: resolved.maxNativeZoom,
+      maxZoom: MAP_MAX_ZOOM,
+      minZoom: 2,
+    }).addTo(map)
+  }, [baseLayer, mbtiles, mapLoaded])
+
+  // Draw the WMS layers, stacked in the order of the list
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const mapState = mapRef.current
+    const { instance: map, L } = mapState
+
+    if (!map.getPane(WMS_PANE)) {
+      map.createPane(WMS_PANE).style.zIndex = "300"
+    }
+
+    const currentIds = new Set(wmsLayers.map((wmsLayer) => wmsLayer.id))
+    mapState.wmsLayers.forEach((layer: any, layerId: string) => {
+      if (!currentIds.has(layerId)) {
+        map.removeLayer(layer)
+        mapState.wmsLayers.delete(layerId)
+      }
+    })
+
+    wmsLayers.forEach((wmsLayer, index) => {
+      let layer = mapState.wmsLayers.get(wmsLayer.id)
+      if (!layer) {
+        layer = L.tileLayer.wms(wmsLayer.url, {
+          layers: wmsLayer.name,
+          styles: wmsLayer.style,
+          format: wmsLayer.format,
+          transparent: true,
+          version: wmsLayer.version,
+          pane: WMS_PANE,
+          maxZoom: MAP_MAX_ZOOM,
+        })
+        mapState.wmsLayers.set(wmsLayer.id, layer)
+      }
+
+      layer.setOpacity(wmsLayer.opacity)
+      layer.setZIndex(wmsLayers.length - index)
+      if (wmsLayer.visible && !map.hasLayer(layer)) {
+        layer.addTo(map)
+      } else if (!wmsLayer.visible && map.hasLayer(layer)) {
+        map.removeLayer(layer)
+      }
+    })
+  }, [wmsLayers, mapLoaded])
+
+  // Query the visible WMS layers where the map is clicked, unless it is on a data element (which has its own popup)
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current) return
+
+    const queryableLayers = wmsLayers.filter((wmsLayer) => wmsLayer.visible && wmsLayer.infoFormat)
+    if (queryableLayers.length === 0) return
+
+    const { instance: map, L } = mapRef.current
+
+    const handleClick = (event: any) => {
+      if (event.originalEvent?.target?.classList?.contains("leaflet-interactive")) return
+
+      const size = map.getSize()
+      const point = map.latLngToContainerPoint(event.latlng)
+      const bounds = map.getBounds()
+      const southWest = L.CRS.EPSG3857.project(bounds.getSouthWest())
+      const northEast = L.CRS.EPSG3857.project(bounds.getNorthEast())
+      const request = {
+        bbox: [southWest.x, southWest.y, northEast.x, northEast.y] as [number, number, number, number],
+        width: size.x,
+        height: size.y,
+        x: point.x,
+        y: point.y,
+      }
+
+      const content = document.createElement("div")
+      content.className = "kml-popup text-sm"
+      content.textContent = "Consultando camadas WMS..."
+      const popup = L.popup({ maxWidth: isMobile ? 280 : 360, className: "kml-popup-container" })
+        .setLatLng(event.latlng)
+        .setContent(content)
+        .openOn(map)
+
+      Promise.all(
+        queryableLayers.map((wmsLayer) =>
+          fetchWmsFeatureInfo(wmsLayer, request).then(
+            (info) => ({ wmsLayer, info }),
+            (error) => {
+              console.error(`Error querying WMS layer ${wmsLayer.name}:`, error)
+              return { wmsLayer, error }
+            },
+          ),
+        ),
+      ).then((results) => popup.setContent(createFeatureInfoContent(results)))
+    }
+
+    map.on("click", handleClick)
+    return () => {
+      map.off("click", handleClick)
+    }
+  }, [wmsLayers, mapLoaded, isMobile])
+
+  // Move the map to a view given by the page, such as the one of a restored session
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current || !viewRequest) return
+
+    mapRef.current.instance.setView(viewRequest.center, viewRequest.zoom)
+  }, [viewRequest, mapLoaded])
+
+  // Reset view button handler, fitting the map to the visible layers
   const handleResetView = () => {
     if (!mapRef.current || !mapRef.current.instance) return
 
-    const { instance: map, bounds } = mapRef.current
+    const { instance: map, L } = mapRef.current
+    const bounds = L.latLngBounds([])
+    dataLayers.forEach((dataLayer) => {
+      const layerBounds = mapRef.current.dataLayers.get(dataLayer.id)?.bounds
+      if (dataLayer.visible && layerBounds) {
+        bounds.extend(layerBounds)
+      }
+    })
 
-    if (bounds) {
+    if (bounds.isValid()) {
       map.fitBounds(bounds, { padding: [50, 50] })
     } else {
       map.setView([0, 0], 2)
@@ -446,27 +944,64 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
           <div className="flex flex-col items-center">
             <Loader2 className="h-8 w-8 animate-spin text-[#3700ff]" />
             <p className="mt-2 text-sm font-medium">Carregando dados KML...</p>
+            {loadingProgress && loadingProgress.totalBytes > 0 && (
+              <div className="mt-3 w-64">
+                <Progress value={(loadingProgress.bytesRead / loadingProgress.totalBytes) * 100} className="h-2" />
+                <p className="mt-1 text-center text-xs text-gray-500">
+                  {formatMegabytes(loadingProgress.bytesRead)} de {formatMegabytes(loadingProgress.totalBytes)} MB ·{" "}
+                  {loadingProgress.placemarks.toLocaleString()} placemarks
+                </p>
+              </div>
+            )}
+            {onLoadingCancel && (
+              <Button variant="outline" size="sm" className="mt-3" onClick={onLoadingCancel}>
+                Cancelar
+              </Button>
+            )}
           </div>
         </div>
       )}
 
-      {!kmlData && !isLoading && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="flex flex-col items-center text-center max-w-md p-6">
+      {dataLayers.length === 0 && !isLoading && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center">
+          <div className="pointer-events-auto flex max-h-full max-w-md flex-col items-center overflow-y-auto rounded-lg bg-white/90 p-6 text-center shadow-md">
             <MapIcon className="h-16 w-16 text-gray-300 mb-4" />
             <h2 className="text-xl font-bold text-gray-700">Nenhum dado KML carregado</h2>
             <p className="mt-2 text-gray-500">
               Faça upload de um arquivo KML ou KMZ usando o botão no canto superior direito para visualizar dados
               geográficos neste mapa.
             </p>
+            {onRecentFileOpen && onRecentFileRemove && recentFiles.length > 0 && (
+              <div className="mt-6 w-full">
+                <RecentFilesList recentFiles={recentFiles} onOpen={onRecentFileOpen} onRemove={onRecentFileRemove} />
+              </div>
+            )}
           </div>
         </div>
       )}
 
-      <div ref={mapContainerRef} className="h-full w-full" />
+      <div ref={mapContainerRef} className="isolate h-full w-full" />
+
+      {mapLoaded && selectedElement?.type === "Track" && (selectedElement.timestamps?.length || 0) > 1 && (
+        <TrackPlaybackControl
+          element={selectedElement}
+          onPositionChange={handleTrackPositionChange}
+          isMobile={isMobile}
+        />
+      )}
 
       {mapLoaded && (
         <div className="absolute bottom-4 right-4 z-10 flex flex-col gap-2">
+          {onBaseLayerChange && (
+            <BaseLayerSwitcher
+              selection={baseLayer}
+              onChange={onBaseLayerChange}
+              mbtilesName={mbtiles?.name}
+              onMbtilesOpen={onMbtilesOpen}
+              onOfflineDownload={onOfflineDownload}
+            />
+          )}
+
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
@@ -490,7 +1025,30 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
             </Tooltip>
           </TooltipProvider>
 
-          {kmlData && (
+          {dataLayers.some((dataLayer) =>
+            dataLayer.kmlData.elements.some((element) => element.type === "Point"),
+          ) && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    onClick={() => setIsClusteringEnabled(!isClusteringEnabled)}
+                    aria-pressed={isClusteringEnabled}
+                    className="bg-white shadow-md hover:bg-gray-100 h-12 w-12 rounded-full"
+                  >
+                    <Group className={`h-5 w-5 ${isClusteringEnabled ? "text-[#3700ff]" : "text-gray-400"}`} />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{isClusteringEnabled ? "Desagrupar pontos" : "Agrupar pontos"}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+
+          {dataLayers.length > 0 && (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -530,6 +1088,27 @@ export function KmlViewer({ kmlData, isLoading, selectedElement, onElementSelect
           padding: 6px;
           color: #666;
         }
+        .kml-icon {
+          background: transparent;
+          border: none;
+        }
+        .kml-cluster {
+          background: transparent;
+          border: none;
+        }
+        .kml-cluster div {
+          display: flex;
+          height: 100%;
+          width: 100%;
+          align-items: center;
+          justify-content: center;
+          border: 3px solid rgba(255, 255, 255, 0.8);
+          border-radius: 50%;
+          box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3);
+          color: #ffffff;
+          font-size: 12px;
+          font-weight: 600;
+        }
         .leaflet-container a.leaflet-popup-close-button:hover {
           color: #333;
           background-color: #f0f0f0;
@@ -0,0 +1,214 @@
+"use client"
+
+import { ArrowDown, ArrowUp, Eye, EyeOff, Focus, Globe, Layers3, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Slider } from "@/components/ui/slider"
+import type { DataLayer } from "@/lib/data-layers"
+import type { WmsLayer } from "@/lib/wms"
+
+interface LayerManagerProps {
+  dataLayers: DataLayer[] // Top layer first
+  activeLayerId: string | null // Layer the elements list is scoped to, null for all layers
+  onActiveLayerChange: (layerId: string | null) => void
+  onVisibilityToggle: (layerId: string) => void
+  onOpacityChange: (layerId: string, opacity: number) => void
+  onMove: (layerId: string, offset: number) => void
+  onZoomTo: (layerId: string) => void
+  onRemove: (layerId: string) => void
+  onUpload: () => void
+  wmsLayers: WmsLayer[] // Top layer first, all of them drawn below the data layers
+  onWmsLayerChange: (layerId: string, changes: Partial<WmsLayer>) => void
+  onWmsLayerRemove: (layerId: string) => void
+  onWmsLayerAdd: () => void
+  isMobile?: boolean
+}
+
+export function LayerManager({
+  dataLayers,
+  activeLayerId,
+  onActiveLayerChange,
+  onVisibilityToggle,
+  onOpacityChange,
+  onMove,
+  onZoomTo,
+  onRemove,
+  onUpload,
+  wmsLayers,
+  onWmsLayerChange,
+  onWmsLayerRemove,
+  onWmsLayerAdd,
+  isMobile = false,
+}: LayerManagerProps) {
+  if (dataLayers.length === 0 && wmsLayers.length === 0) {
+    return (
+      <div className="flex h-full items-center justify-center p-4 text-center">
+        <div>
+          <Layers3 className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nenhuma camada carregada</h3>
+          <p className="mt-1 text-sm text-gray-500">Cada arquivo carregado é exibido como uma camada no mapa</p>
+          <div className="mt-6 flex flex-col items-center gap-2">
+            <Button onClick={onUpload} className="bg-[#3700ff] hover:bg-[#3700ff]/90">
+              <Upload className="mr-2 h-4 w-4" />
+              Adicionar arquivo
+            </Button>
+            <Button variant="outline" onClick={onWmsLayerAdd}>
+              <Globe className="mr-2 h-4 w-4" />
+              Adicionar camada WMS
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const iconButtonClassName = "rounded p-1 text-gray-500 hover:bg-gray-200 hover:text-gray-900 disabled:opacity-30"
+
+  return (
+    <div className="flex h-full flex-col">
+      <ScrollArea className="flex-1">
+        <div className="grid gap-2 p-2">
+          {dataLayers.map((dataLayer, index) => {
+            const isActive = dataLayer.id === activeLayerId
+
+            return (
+              <div
+                key={dataLayer.id}
+                className={`rounded-lg border p-3 ${isActive ? "border-[#3700ff] bg-[#3700ff]/5" : "bg-white"}`}
+              >
+                <div className="flex items-center gap-2">
+                  <button
+                    className={iconButtonClassName}
+                    onClick={() => onVisibilityToggle(dataLayer.id)}
+                    aria-label={dataLayer.visible ? "Ocultar camada" : "Mostrar camada"}
+                    title={dataLayer.visible ? "Ocultar camada" : "Mostrar camada"}
+                  >
+                    {dataLayer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  </button>
+
+                  <button
+                    className={`flex-1 truncate text-left ${dataLayer.visible ? "" : "opacity-50"}`}
+                    onClick={() => onActiveLayerChange(isActive ? null : dataLayer.id)}
+                    title={isActive ? "Listar elementos de todas as camadas" : "Listar apenas os elementos desta camada"}
+                  >
+                    <div className="truncate text-sm font-medium">{dataLayer.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {dataLayer.fileType.toUpperCase()} • {dataLayer.kmlData.elements.length} elementos
+                    </div>
+                  </button>
+                </div>
+
+                <div className="mt-2 flex items-center gap-3">
+                  <Slider
+                    value={[dataLayer.opacity * 100]}
+                    min={0}
+                    max={100}
+                    step={1}
+                    onValueChange={([value]) => onOpacityChange(dataLayer.id, value / 100)}
+                    aria-label="Opacidade da camada"
+                    className="flex-1"
+                  />
+                  <span className="w-9 text-right text-xs text-gray-500">{Math.round(dataLayer.opacity * 100)}%</span>
+                </div>
+
+                <div className="mt-2 flex items-center justify-end gap-1">
+                  <button
+                    className={iconButtonClassName}
+                    onClick={() => onMove(dataLayer.id, -1)}
+                    disabled={index === 0}
+                    aria-label="Mover para cima"
+                    title="Mover para cima"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    className={iconButtonClassName}
+                    onClick={() => onMove(dataLayer.id, 1)}
+                    disabled={index === dataLayers.length - 1}
+                    aria-label="Mover para baixo"
+                    title="Mover para baixo"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    className={iconButtonClassName}
+                    onClick={() => onZoomTo(dataLayer.id)}
+                    aria-label="Aproximar da camada"
+                    title="Aproximar da camada"
+                  >
+                    <Focus className="h-4 w-4" />
+                  </button>
+                  <button
+                    className={`${iconButtonClassName} hover:text-red-600`}
+                    onClick={() => onRemove(dataLayer.id)}
+                    aria-label="Remover camada"
+                    title="Remover camada"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+
+          {wmsLayers.length > 0 && <h4 className="mt-2 px-1 text-xs font-medium text-gray-500">Camadas WMS</h4>}
+          {wmsLayers.map((wmsLayer) => (
+            <div key={wmsLayer.id} className="rounded-lg border bg-white p-3">
+              <div className="flex items-center gap-2">
+                <button
+                  className={iconButtonClassName}
+                  onClick={() => onWmsLayerChange(wmsLayer.id, { visible: !wmsLayer.visible })}
+                  aria-label={wmsLayer.visible ? "Ocultar camada" : "Mostrar camada"}
+                  title={wmsLayer.visible ? "Ocultar camada" : "Mostrar camada"}
+                >
+                  {wmsLayer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                </button>
+
+                <div className={`min-w-0 flex-1 ${wmsLayer.visible ? "" : "opacity-50"}`} title={wmsLayer.url}>
+                  <div className="truncate text-sm font-medium">{wmsLayer.title}</div>
+                  <div className="truncate text-xs text-gray-500">
+                    WMS • {wmsLayer.name}
+                    {wmsLayer.infoFormat && " • clique no mapa para consultar"}
+                  </div>
+                </div>
+
+                <button
+                  className={`${iconButtonClassName} hover:text-red-600`}
+                  onClick={() => onWmsLayerRemove(wmsLayer.id)}
+                  aria-label="Remover camada"
+                  title="Remover camada"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="mt-2 flex items-center gap-3">
+                <Slider
+                  value={[wmsLayer.opacity * 100]}
+                  min={0}
+                  max={100}
+                  step={1}
+                  onValueChange={([value]) => onWmsLayerChange(wmsLayer.id, { opacity: value / 100 })}
+                  aria-label="Opacidade da camada"
+                  className="flex-1"
+                />
+                <span className="w-9 text-right text-xs text-gray-500">{Math.round(wmsLayer.opacity * 100)}%</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="grid gap-2 border-t p-4">
+        <Button variant="outline" size={isMobile ? "default" : "sm"} className="w-full" onClick={onUpload}>
+          <Upload className="mr-2 h-4 w-4" />
+          Adicionar arquivo
+        </Button>
+        <Button variant="outline" size={isMobile ? "default" : "sm"} className="w-full" onClick={onWmsLayerAdd}>
+          <Globe className="mr-2 h-4 w-4" />
+          Adicionar camada WMS
+        </Button>
+      </div>
+    </div>
+  )
+}
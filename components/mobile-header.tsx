@@ -1,7 +1,7 @@
 "use client"
 
-import { useState } from "react"
-import { Menu, X, Upload, Layers, Map, Info, FileText, ChevronLeft } from "lucide-react"
+import { useState, type ReactNode } from "react"
+import { Menu, X, Upload, Layers, Layers3, Map, Info, FileText, ChevronLeft } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 
@@ -12,6 +12,7 @@ interface MobileHeaderProps {
   hasKmlData: boolean
   hasSelectedElement: boolean
   title?: string
+  exportMenu?: ReactNode // Shown next to the upload button
 }
 
 export function MobileHeader({
@@ -21,6 +22,7 @@ export function MobileHeader({
   hasKmlData,
   hasSelectedElement,
   title = "KML Viewer",
+  exportMenu,
 }: MobileHeaderProps) {
   const [menuOpen, setMenuOpen] = useState(false)
 
@@ -66,18 +68,23 @@ export function MobileHeader({
                   ? "Elementos"
                   : activeTab === "details"
                     ? "Detalhes"
-                    : "Arquivo"}
+                    : activeTab === "layers"
+                      ? "Camadas"
+                      : "Arquivo"}
             </h1>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={onUpload}
-            className="text-white hover:bg-white/10"
-            aria-label="Upload KML/KMZ file"
-          >
-            <Upload className="h-5 w-5" />
-          </Button>
+          <div className="flex items-center">
+            {hasKmlData && exportMenu}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onUpload}
+              className="text-white hover:bg-white/10"
+              aria-label="Upload file"
+            >
+              <Upload className="h-5 w-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -121,6 +128,17 @@ export function MobileHeader({
                 <Info className="mr-3 h-5 w-5" />
                 <span>Detalhes</span>
               </Button>
+              <Button
+                variant="ghost"
+                className={cn(
+                  "flex justify-start items-center h-12 px-4 text-left",
+                  activeTab === "layers" ? "bg-slate-100 text-[#3700ff]" : "text-slate-700",
+                )}
+                onClick={() => handleTabSelect("layers")}
+              >
+                <Layers3 className="mr-3 h-5 w-5" />
+                <span>Camadas</span>
+              </Button>
               <Button
                 variant="ghost"
                 className={cn(
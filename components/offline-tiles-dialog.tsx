@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { BaseLayer } from "@/lib/base-layers"
+import type { GeoBounds } from "@/lib/geo"
+import {
+  MAX_DOWNLOAD_TILES,
+  clearTileCache,
+  countCachedTiles,
+  countTiles,
+  downloadTiles,
+  getDownloadMaxZoom,
+  isOfflineCacheSupported,
+  type TileDownloadProgress,
+} from "@/lib/offline-tiles"
+
+interface OfflineTilesDialogProps {
+  open: boolean
+  baseLayer: BaseLayer | null // Base layer whose tiles are downloaded, null when it has none (no base layer or MBTiles)
+  bounds: GeoBounds | null // Area of the loaded data
+  onClose: () => void
+}
+
+// Lowest zoom offered, the whole world fits the screen below it
+const MIN_ZOOM = 2
+
+// Zoom range first suggested, detailed enough for fieldwork
+const DEFAULT_MIN_ZOOM = 12
+const DEFAULT_MAX_ZOOM = 16
+
+export function OfflineTilesDialog({ open, baseLayer, bounds, onClose }: OfflineTilesDialogProps) {
+  const maxZoomLimit = baseLayer ? getDownloadMaxZoom(baseLayer) : DEFAULT_MAX_ZOOM
+  const [minZoom, setMinZoom] = useState(DEFAULT_MIN_ZOOM)
+  const [maxZoom, setMaxZoom] = useState(DEFAULT_MAX_ZOOM)
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [cachedTileCount, setCachedTileCount] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const isSupported = isOfflineCacheSupported()
+  const zoomOptions = Array.from({ length: maxZoomLimit - MIN_ZOOM + 1 }, (_, index) => MIN_ZOOM + index)
+  const effectiveMinZoom = Math.min(minZoom, maxZoomLimit)
+  const effectiveMaxZoom = Math.max(Math.min(maxZoom, maxZoomLimit), effectiveMinZoom)
+  const tileCount = bounds ? countTiles(bounds, effectiveMinZoom, effectiveMaxZoom) : 0
+  const canDownload =
+    isSupported && !!baseLayer && !!bounds && !isDownloading && tileCount > 0 && tileCount <= MAX_DOWNLOAD_TILES
+
+  const refreshCachedTileCount = () => {
+    countCachedTiles().then(setCachedTileCount, (err) => {
+      console.warn("Could not count the cached tiles:", err)
+      setCachedTileCount(null)
+    })
+  }
+
+  // Start over each time the dialog is opened
+  useEffect(() => {
+    if (!open || !isSupported) return
+    setProgress(null)
+    setError(null)
+    refreshCachedTileCount()
+  }, [open, isSupported])
+
+  const handleDownload = async () => {
+    if (!baseLayer || !bounds) return
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setIsDownloading(true)
+    setError(null)
+    setProgress({ done: 0, total: tileCount, failed: 0 })
+
+    try {
+      await downloadTiles(baseLayer, bounds, effectiveMinZoom, effectiveMaxZoom, setProgress, abortController.signal)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download the tiles")
+    } finally {
+      abortControllerRef.current = null
+      setIsDownloading(false)
+      refreshCachedTileCount()
+    }
+  }
+
+  const handleClearCache = async () => {
+    try {
+      await clearTileCache()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear the tile cache")
+    }
+    refreshCachedTileCount()
+  }
+
+  // Closing stops the download, the tiles downloaded so far are kept
+  const handleClose = () => {
+    abortControllerRef.current?.abort()
+    onClose()
+  }
+
+  const renderZoomSelect = (id: string, label: string, value: number, onChange: (zoom: number) => void) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Select value={String(value)} onValueChange={(zoom) => onChange(Number(zoom))} disabled={isDownloading}>
+        <SelectTrigger id={id} className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {zoomOptions.map((zoom) => (
+            <SelectItem key={zoom} value={String(zoom)}>
+              {zoom}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const renderContent = () => {
+    if (!isSupported) {
+      return <p className="text-sm text-muted-foreground">Este navegador não permite salvar tiles para uso offline.</p>
+    }
+    if (!baseLayer) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Escolha um mapa base online (ruas, topográfico, satélite, escuro ou personalizado) para baixar seus tiles.
+        </p>
+      )
+    }
+    if (!bounds) {
+      return <p className="text-sm text-muted-foreground">Carregue um arquivo para definir a área a baixar.</p>
+    }
+
+    return (
+      <>
+        <div className="grid grid-cols-2 gap-4">
+          {renderZoomSelect("offline-min-zoom", "Zoom mínimo", effectiveMinZoom, (zoom) => {
+            setMinZoom(zoom)
+            setMaxZoom((current) => Math.max(current, zoom))
+          })}
+          {renderZoomSelect("offline-max-zoom", "Zoom máximo", effectiveMaxZoom, (zoom) => {
+            setMaxZoom(zoom)
+            setMinZoom((current) => Math.min(current, zoom))
+          })}
+        </div>
+
+        <p className="text-sm">
+          {tileCount.toLocaleString()} tiles de <span className="font-medium">{baseLayer.name}</span>
+          {tileCount > MAX_DOWNLOAD_TILES && (
+            <span className="text-destructive">
+              {" "}
+              — acima do limite de {MAX_DOWNLOAD_TILES.toLocaleString()}. Reduza o zoom máximo.
+            </span>
+          )}
+        </p>
+        {baseLayer.maxDownloadZoom !== undefined && (
+          <p className="text-xs text-muted-foreground">
+            A política de uso deste servidor permite baixar até o zoom {baseLayer.maxDownloadZoom}. Além dele, os
+            tiles são ampliados.
+          </p>
+        )}
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100} />
+            <p className="text-xs text-muted-foreground">
+              {progress.done.toLocaleString()} de {progress.total.toLocaleString()} tiles
+              {progress.failed > 0 && (
+                <>
+                  {" "}
+                  • {progress.failed.toLocaleString()} não puderam ser baixados (o servidor pode não permitir downloads
+                  deste site)
+                </>
+              )}
+              {!isDownloading && progress.done === progress.total && " • Concluído"}
+            </p>
+          </div>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Mapa offline</DialogTitle>
+          <DialogDescription>
+            Baixe os tiles do mapa base na área dos arquivos carregados para usar o visualizador sem conexão.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-w-0">
+          {renderContent()}
+
+          {cachedTileCount !== null && (
+            <p className="text-xs text-muted-foreground">
+              {cachedTileCount.toLocaleString()} tiles salvos neste navegador.
+            </p>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          {isSupported && (
+            <Button
+              variant="outline"
+              onClick={handleClearCache}
+              disabled={isDownloading || !cachedTileCount}
+              className="sm:mr-auto"
+            >
+              Limpar tiles salvos
+            </Button>
+          )}
+          <Button variant="outline" onClick={isDownloading ? () => abortControllerRef.current?.abort() : handleClose}>
+            {isDownloading ? "Parar" : "Fechar"}
+          </Button>
+          <Button onClick={handleDownload} disabled={!canDownload}>
+            Baixar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
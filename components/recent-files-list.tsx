@@ -0,0 +1,51 @@
+"use client"
+
+import { FileText, History, X } from "lucide-react"
+import type { RecentFile } from "@/lib/recent-files"
+
+interface RecentFilesListProps {
+  recentFiles: RecentFile[] // Most recently opened first
+  onOpen: (recentFile: RecentFile) => void
+  onRemove: (fileId: string) => void
+}
+
+export function RecentFilesList({ recentFiles, onOpen, onRemove }: RecentFilesListProps) {
+  if (recentFiles.length === 0) return null
+
+  return (
+    <div className="w-full text-left">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-medium text-gray-700">
+        <History className="h-4 w-4" />
+        Arquivos recentes
+      </h3>
+      <ul className="divide-y rounded-lg border bg-white">
+        {recentFiles.map((recentFile) => (
+          <li key={recentFile.id} className="flex items-center gap-2 pr-2">
+            <button
+              className="flex min-w-0 flex-1 items-center gap-3 px-3 py-2 text-left hover:bg-gray-50"
+              onClick={() => onOpen(recentFile)}
+              title={`Abrir ${recentFile.name}`}
+            >
+              <FileText className="h-4 w-4 shrink-0 text-[#3700ff]" />
+              <div className="min-w-0">
+                <div className="truncate text-sm font-medium text-gray-900">{recentFile.name}</div>
+                <div className="text-xs text-gray-500">
+                  {recentFile.fileType.toUpperCase()} • {recentFile.elementCount.toLocaleString()} elementos •{" "}
+                  {new Date(recentFile.openedAt).toLocaleDateString()}
+                </div>
+              </div>
+            </button>
+            <button
+              className="rounded p-1 text-gray-400 hover:bg-gray-200 hover:text-red-600"
+              onClick={() => onRemove(recentFile.id)}
+              aria-label="Remover dos recentes"
+              title="Remover dos recentes"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Clock, Pause, Play } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import type { TimeRange } from "@/lib/time-filter"
+
+interface TimeSliderProps {
+  extent: TimeRange
+  onRangeChange: (range: TimeRange | null) => void
+  rangeRequest?: TimeRange | null // A new object selects that range (within the extent), e.g. from a shared link
+  isMobile?: boolean
+}
+
+// Playback advances 1/PLAYBACK_STEPS of the extent every PLAYBACK_INTERVAL ms
+const PLAYBACK_STEPS = 100
+const PLAYBACK_INTERVAL = 100
+
+export function TimeSlider({ extent, onRangeChange, rangeRequest, isMobile = false }: TimeSliderProps) {
+  const [isEnabled, setIsEnabled] = useState(true)
+  const [isWindowed, setIsWindowed] = useState(false)
+  const [range, setRange] = useState<TimeRange>(extent)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const duration = Math.max(extent.end - extent.begin, 1)
+
+  // Reset when a file with a different extent is loaded
+  useEffect(() => {
+    setRange(extent)
+    setIsPlaying(false)
+  }, [extent])
+
+  // Declared after the reset, so a request made before the slider appears wins over the initial extent
+  useEffect(() => {
+    if (!rangeRequest) return
+
+    const begin = Math.min(Math.max(rangeRequest.begin, extent.begin), extent.end)
+    const end = Math.min(Math.max(rangeRequest.end, begin), extent.end)
+    setIsEnabled(true)
+    setIsWindowed(begin > extent.begin)
+    setRange({ begin, end })
+    setIsPlaying(false)
+    // The extent only clamps the request: a new extent resets the range instead
+  }, [rangeRequest])
+
+  // Without a window, everything up to the selected time is shown
+  useEffect(() => {
+    if (!isEnabled) {
+      onRangeChange(null)
+    } else {
+      onRangeChange(isWindowed ? range : { begin: extent.begin, end: range.end })
+    }
+  }, [isEnabled, isWindowed, range, extent, onRangeChange])
+
+  // Move the selected time (or the whole window) forward while playing
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const step = duration / PLAYBACK_STEPS
+    const interval = setInterval(() => {
+      setRange((current) => {
+        const shift = Math.max(Math.min(step, extent.end - current.end), 0)
+        return { begin: isWindowed ? current.begin + shift : current.begin, end: current.end + shift }
+      })
+    }, PLAYBACK_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [isPlaying, isWindowed, duration, extent])
+
+  // Stop at the end of the extent
+  useEffect(() => {
+    if (isPlaying && range.end >= extent.end) {
+      setIsPlaying(false)
+    }
+  }, [isPlaying, range, extent])
+
+  const togglePlaying = () => {
+    if (!isPlaying && range.end >= extent.end) {
+      // Restart from the beginning, keeping the window width
+      const width = isWindowed ? range.end - range.begin : 0
+      setRange({ begin: extent.begin, end: extent.begin + width })
+    }
+    setIsEnabled(true)
+    setIsPlaying(!isPlaying)
+  }
+
+  const handleSliderChange = (values: number[]) => {
+    if (isWindowed) {
+      setRange({ begin: values[0], end: values[1] })
+    } else {
+      setRange((current) => ({ ...current, end: values[0] }))
+    }
+  }
+
+  const handleWindowedChange = (checked: boolean) => {
+    setIsWindowed(checked)
+    if (checked) {
+      // Start with a window of a tenth of the extent ending at the selected time
+      setRange((current) => ({ begin: Math.max(current.end - duration / 10, extent.begin), end: current.end }))
+    }
+  }
+
+  const formatTime = (time: number) => new Date(time).toLocaleString()
+
+  return (
+    <div
+      className={`absolute top-4 z-10 rounded-lg bg-white p-3 shadow-md ${
+        isMobile ? "left-4 right-4" : "right-4 w-96"
+      }`}
+    >
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Clock className="h-4 w-4 text-[#3700ff]" />
+          Linha do tempo
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="time-filter-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+          <Label htmlFor="time-filter-enabled" className="text-xs">
+            Filtrar
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="secondary"
+          size="icon"
+          onClick={togglePlaying}
+          className="h-8 w-8 shrink-0"
+          aria-label={isPlaying ? "Pausar" : "Reproduzir"}
+        >
+          {isPlaying ? <Pause className="h-4 w-4 text-[#3700ff]" /> : <Play className="h-4 w-4 text-[#3700ff]" />}
+        </Button>
+        <Slider
+          value={isWindowed ? [range.begin, range.end] : [range.end]}
+          min={extent.begin}
+          max={extent.begin + duration}
+          step={Math.max(Math.round(duration / 1000), 1)}
+          onValueChange={handleSliderChange}
+          disabled={!isEnabled}
+          aria-label="Tempo"
+        />
+      </div>
+
+      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {isWindowed ? `${formatTime(range.begin)} – ${formatTime(range.end)}` : `Até ${formatTime(range.end)}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <Switch id="time-filter-windowed" checked={isWindowed} onCheckedChange={handleWindowedChange} />
+          <Label htmlFor="time-filter-windowed" className="text-xs">
+            Janela
+          </Label>
+        </div>
+      </div>
+    </div>
+  )
+}
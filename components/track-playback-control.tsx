@@ -0,0 +1,149 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Play, Pause, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { KmlElement } from "@/lib/types"
+import { buildTrackProfile, formatDuration, getTrackPositionAt, type TrackPosition } from "@/lib/track-playback"
+
+interface TrackPlaybackControlProps {
+  element: KmlElement
+  onPositionChange: (position: TrackPosition | null) => void
+  isMobile?: boolean
+}
+
+// Playback speed multipliers (track time per real time)
+const PLAYBACK_SPEEDS = [1, 10, 60, 300, 1800]
+
+export function TrackPlaybackControl({ element, onPositionChange, isMobile = false }: TrackPlaybackControlProps) {
+  const profile = useMemo(
+    () => buildTrackProfile(element),
+    [element.coordinates, element.timestamps, element.geometries],
+  )
+  const [currentTime, setCurrentTime] = useState(profile.startTime)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(60)
+
+  const position = useMemo(() => getTrackPositionAt(profile, currentTime), [profile, currentTime])
+  const duration = profile.endTime - profile.startTime
+
+  // Restart when another track is selected
+  useEffect(() => {
+    setCurrentTime(profile.startTime)
+    setIsPlaying(false)
+  }, [profile])
+
+  // Advance the playback clock on every animation frame
+  useEffect(() => {
+    if (!isPlaying) return
+
+    let frame: number
+    let lastFrameTime = performance.now()
+
+    const tick = (now: number) => {
+      const delta = (now - lastFrameTime) * speed
+      lastFrameTime = now
+      setCurrentTime((time) => Math.min(time + delta, profile.endTime))
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, speed, profile])
+
+  // Stop at the end of the track
+  useEffect(() => {
+    if (isPlaying && currentTime >= profile.endTime) {
+      setIsPlaying(false)
+    }
+  }, [isPlaying, currentTime, profile])
+
+  // Keep the marker on the map in sync
+  useEffect(() => {
+    onPositionChange(position)
+  }, [position, onPositionChange])
+
+  // Remove the marker when the control goes away
+  useEffect(() => {
+    return () => onPositionChange(null)
+  }, [onPositionChange])
+
+  const togglePlaying = () => {
+    if (!isPlaying && currentTime >= profile.endTime) {
+      setCurrentTime(profile.startTime)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const handleRestart = () => {
+    setCurrentTime(profile.startTime)
+  }
+
+  return (
+    <div
+      className={`absolute bottom-4 left-4 z-10 rounded-lg bg-white p-3 shadow-md ${isMobile ? "right-20" : "w-80"}`}
+    >
+      <div className="mb-2 truncate text-sm font-medium">{element.name || "Trilha sem nome"}</div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="secondary"
+          size="icon"
+          onClick={togglePlaying}
+          className="h-9 w-9 shrink-0"
+          aria-label={isPlaying ? "Pausar" : "Reproduzir"}
+        >
+          {isPlaying ? <Pause className="h-4 w-4 text-[#3700ff]" /> : <Play className="h-4 w-4 text-[#3700ff]" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleRestart}
+          className="h-9 w-9 shrink-0"
+          aria-label="Reiniciar"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Slider
+          value={[currentTime - profile.startTime]}
+          min={0}
+          max={Math.max(duration, 1)}
+          step={1000}
+          onValueChange={([value]) => setCurrentTime(profile.startTime + value)}
+          aria-label="Posição da reprodução"
+        />
+        <Select value={speed.toString()} onValueChange={(value) => setSpeed(Number(value))}>
+          <SelectTrigger className="h-9 w-20 shrink-0" aria-label="Velocidade">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map((value) => (
+              <SelectItem key={value} value={value.toString()}>
+                {value}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <dl className="mt-2 grid grid-cols-3 gap-1 text-xs">
+        <div>
+          <dt className="text-gray-500">Tempo</dt>
+          <dd className="font-medium">
+            {formatDuration(position.elapsed)} / {formatDuration(duration)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Velocidade</dt>
+          <dd className="font-medium">{position.speed.toFixed(1)} km/h</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Distância</dt>
+          <dd className="font-medium">{position.distance.toFixed(2)} km</dd>
+        </div>
+      </dl>
+    </div>
+  )
+}
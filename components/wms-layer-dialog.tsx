@@ -0,0 +1,225 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  createWmsLayers,
+  fetchWmsCapabilities,
+  getDefaultImageFormat,
+  type WmsCapabilities,
+  type WmsLayer,
+} from "@/lib/wms"
+
+interface WmsLayerDialogProps {
+  open: boolean
+  onAdd: (wmsLayers: WmsLayer[]) => void
+  onCancel: () => void
+}
+
+// Select value for the default style of a layer (Radix selects don't accept an empty value)
+const DEFAULT_STYLE = "default-style"
+
+export function WmsLayerDialog({ open, onAdd, onCancel }: WmsLayerDialogProps) {
+  const [url, setUrl] = useState("")
+  const [capabilities, setCapabilities] = useState<WmsCapabilities | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedStyles, setSelectedStyles] = useState<Record<string, string>>({}) // Layer name -> style name
+  const [format, setFormat] = useState("image/png")
+  const [layerFilter, setLayerFilter] = useState("")
+
+  const visibleLayers = useMemo(() => {
+    const query = layerFilter.trim().toLowerCase()
+    if (!capabilities || !query) return capabilities?.layers ?? []
+    return capabilities.layers.filter(
+      (layer) => layer.title.toLowerCase().includes(query) || layer.name.toLowerCase().includes(query),
+    )
+  }, [capabilities, layerFilter])
+
+  const selectedCount = Object.keys(selectedStyles).length
+
+  const handleConnect = async () => {
+    setIsConnecting(true)
+    setError(null)
+    try {
+      const loaded = await fetchWmsCapabilities(url)
+      setCapabilities(loaded)
+      setSelectedStyles({})
+      setFormat(getDefaultImageFormat(loaded.formats))
+      setLayerFilter("")
+    } catch (err) {
+      setCapabilities(null)
+      setError(err instanceof Error ? err.message : "Failed to load the WMS capabilities")
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
+  const handleLayerToggle = (layerName: string, isSelected: boolean) => {
+    setSelectedStyles((current) => {
+      const next = { ...current }
+      if (isSelected) {
+        next[layerName] = ""
+      } else {
+        delete next[layerName]
+      }
+      return next
+    })
+  }
+
+  const handleAdd = () => {
+    if (!capabilities) return
+    onAdd(createWmsLayers(capabilities, selectedStyles, format))
+    setSelectedStyles({})
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Adicionar camada WMS</DialogTitle>
+          <DialogDescription>
+            Informe o endereço do serviço WMS. As camadas escolhidas são exibidas sobre o mapa base, abaixo dos arquivos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 min-w-0">
+          <div className="flex gap-2">
+            <Input
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" && url.trim() && !isConnecting) handleConnect()
+              }}
+              placeholder="https://exemplo.gov.br/geoserver/wms"
+              aria-label="URL do serviço WMS"
+              className="h-9"
+            />
+            <Button onClick={handleConnect} disabled={!url.trim() || isConnecting} className="h-9">
+              {isConnecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Conectar
+            </Button>
+          </div>
+
+          {capabilities && (
+            <>
+              {capabilities.title && (
+                <p className="text-sm font-medium">
+                  {capabilities.title}{" "}
+                  <span className="font-normal text-muted-foreground">(WMS {capabilities.version})</span>
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="wms-layer-filter" className="text-xs">
+                    Buscar camada
+                  </Label>
+                  <Input
+                    id="wms-layer-filter"
+                    value={layerFilter}
+                    onChange={(event) => setLayerFilter(event.target.value)}
+                    placeholder="Nome ou título"
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="wms-format" className="text-xs">
+                    Formato da imagem
+                  </Label>
+                  <Select value={format} onValueChange={setFormat}>
+                    <SelectTrigger id="wms-format" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(capabilities.formats.length > 0 ? capabilities.formats : [format]).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="rounded-md border divide-y overflow-auto max-h-64">
+                {visibleLayers.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">Nenhuma camada encontrada</p>
+                ) : (
+                  visibleLayers.map((layer) => {
+                    const isSelected = layer.name in selectedStyles
+                    const checkboxId = `wms-layer-${layer.name}`
+
+                    return (
+                      <div key={layer.name} className="flex items-center gap-3 px-3 py-2">
+                        <Checkbox
+                          id={checkboxId}
+                          checked={isSelected}
+                          onCheckedChange={(checked) => handleLayerToggle(layer.name, checked === true)}
+                        />
+                        <Label htmlFor={checkboxId} className="min-w-0 flex-1 font-normal" title={layer.abstract}>
+                          <div className="truncate text-sm">{layer.title}</div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {layer.name}
+                            {layer.queryable && " • consultável"}
+                          </div>
+                        </Label>
+                        {isSelected && layer.styles.length > 1 && (
+                          <Select
+                            value={selectedStyles[layer.name] || DEFAULT_STYLE}
+                            onValueChange={(style) =>
+                              setSelectedStyles((current) => ({
+                                ...current,
+                                [layer.name]: style === DEFAULT_STYLE ? "" : style,
+                              }))
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-40" aria-label={`Estilo de ${layer.title}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={DEFAULT_STYLE}>Estilo padrão</SelectItem>
+                              {layer.styles.map((style) => (
+                                <SelectItem key={style.name} value={style.name}>
+                                  {style.title}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </div>
+                    )
+                  })
+                )}
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button onClick={handleAdd} disabled={selectedCount === 0}>
+            Adicionar {selectedCount > 0 ? `(${selectedCount})` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
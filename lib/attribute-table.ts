@@ -0,0 +1,88 @@
+import { calculateCentroid } from "./geo"
+import type { KmlElement, KmlGeometry } from "./types"
+import { toWkt } from "./wkt-writer"
+
+// A column of the attribute table, either a built-in field or an extendedData key
+export interface AttributeColumn {
+  id: string
+  label: string
+  isDefault: boolean // Selected when the export dialog opens
+}
+
+export type AttributeValue = string | number | null
+
+export interface AttributeTable {
+  headers: string[]
+  rows: AttributeValue[][]
+}
+
+// extendedData columns are identified by their key with this prefix, so they can't clash with built-in ids
+const DATA_COLUMN_PREFIX = "data:"
+
+const BUILT_IN_COLUMNS: AttributeColumn[] = [
+  { id: "name", label: "Nome", isDefault: true },
+  { id: "description", label: "Descrição", isDefault: true },
+  { id: "type", label: "Tipo", isDefault: true },
+  { id: "length", label: "Comprimento (km)", isDefault: true },
+  { id: "area", label: "Área (km²)", isDefault: true },
+  { id: "latitude", label: "Latitude", isDefault: true },
+  { id: "longitude", label: "Longitude", isDefault: true },
+]
+
+// WKT can be very long, so it is only written when asked for
+const WKT_COLUMN: AttributeColumn = { id: "wkt", label: "Geometria (WKT)", isDefault: false }
+
+// Columns available for the elements: the built-in fields, every extendedData key in order of appearance, then WKT
+export function getAttributeColumns(elements: KmlElement[]): AttributeColumn[] {
+  const keys = new Set<string>()
+  elements.forEach((element) => Object.keys(element.extendedData || {}).forEach((key) => keys.add(key)))
+
+  return [
+    ...BUILT_IN_COLUMNS,
+    ...Array.from(keys).map((key) => ({ id: DATA_COLUMN_PREFIX + key, label: key, isDefault: true })),
+    WKT_COLUMN,
+  ]
+}
+
+// Build the table rows of the elements for the given columns
+// Latitude and longitude are the point itself, or the centroid of lines and polygons.
+export function buildAttributeTable(elements: KmlElement[], columns: AttributeColumn[]): AttributeTable {
+  return {
+    headers: columns.map((column) => column.label),
+    rows: elements.map((element) => {
+      // Only computed when a column needs it
+      let centroid: number[] | undefined | null = null
+      const getCentroid = () => {
+        if (centroid === null) centroid = calculateCentroid(element)
+        return centroid
+      }
+
+      return columns.map((column) => {
+        if (column.id.startsWith(DATA_COLUMN_PREFIX)) {
+          return element.extendedData?.[column.id.slice(DATA_COLUMN_PREFIX.length)] ?? null
+        }
+
+        switch (column.id) {
+          case "name":
+            return element.name ?? null
+          case "description":
+            return element.description ?? null
+          case "type":
+            return element.type
+          case "length":
+            return element.metadata?.length ?? null
+          case "area":
+            return element.metadata?.area ?? null
+          case "latitude":
+            return getCentroid()?.[1] ?? null
+          case "longitude":
+            return getCentroid()?.[0] ?? null
+          case "wkt":
+            return toWkt(element as KmlGeometry)
+          default:
+            return null
+        }
+      })
+    }),
+  }
+}
@@ -0,0 +1,123 @@
+// Tile layers drawn under the data, chosen in the map
+export interface BaseLayer {
+  id: string
+  name: string
+  url: string // Leaflet tile URL template ({s}, {z}, {x}, {y}, {r})
+  attribution: string
+  maxNativeZoom: number // Deepest zoom the server has tiles for, tiles are scaled up beyond it
+  maxDownloadZoom?: number // Deepest zoom the tile usage policy allows downloading for offline use, if lower
+  subdomains?: string
+}
+
+// The chosen base layer, a preset or a tile URL typed by the user
+export interface BaseLayerSelection {
+  id: string // A BASE_LAYERS id, CUSTOM_BASE_LAYER, MBTILES_BASE_LAYER or NO_BASE_LAYER
+  customUrl?: string
+}
+
+export const CUSTOM_BASE_LAYER = "custom"
+export const NO_BASE_LAYER = "none"
+export const MBTILES_BASE_LAYER = "mbtiles" // The MBTiles file opened last (see lib/mbtiles.ts)
+
+export const BASE_LAYERS: BaseLayer[] = [
+  {
+    id: "streets",
+    name: "Ruas",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxNativeZoom: 19,
+    maxDownloadZoom: 16, // The OSM tile policy forbids bulk downloads from zoom 17
+  },
+  {
+    id: "topo",
+    name: "Topográfico",
+    url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors, SRTM | &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)',
+    maxNativeZoom: 17,
+  },
+  {
+    id: "satellite",
+    name: "Satélite",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: "Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+    maxNativeZoom: 19,
+  },
+  {
+    id: "dark",
+    name: "Escuro",
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
+    maxNativeZoom: 20,
+    subdomains: "abcd",
+  },
+]
+
+export const DEFAULT_BASE_LAYER: BaseLayerSelection = { id: "streets" }
+
+// The map zooms this far whatever the base layer (clustering needs a fixed maximum zoom)
+export const MAP_MAX_ZOOM = 20
+
+const STORAGE_KEY = "kml-viewer:base-layer"
+
+// WMTS RESTful templates name the tile indices differently
+const WMTS_PLACEHOLDERS: Record<string, string> = {
+  "{TileMatrix}": "{z}",
+  "{TileRow}": "{y}",
+  "{TileCol}": "{x}",
+}
+
+// Convert a user-typed XYZ or WMTS RESTful template to a Leaflet template, or null if it can't be used
+export function normalizeTileUrl(url: string): string | null {
+  let template = url.trim()
+  Object.entries(WMTS_PLACEHOLDERS).forEach(([placeholder, replacement]) => {
+    template = template.split(placeholder).join(replacement)
+  })
+
+  if (!/^https?:\/\//i.test(template)) return null
+  if (!template.includes("{z}") || !template.includes("{x}") || !(template.includes("{y}") || template.includes("{-y}"))) {
+    return null
+  }
+  return template
+}
+
+// The tile layer to draw for a selection, null for no base layer (or an MBTiles file, which has no URL)
+export function resolveBaseLayer(selection: BaseLayerSelection): BaseLayer | null {
+  if (selection.id === CUSTOM_BASE_LAYER) {
+    const url = selection.customUrl && normalizeTileUrl(selection.customUrl)
+    return url ? { id: CUSTOM_BASE_LAYER, name: "Personalizado", url, attribution: "", maxNativeZoom: MAP_MAX_ZOOM } : null
+  }
+  if (selection.id === NO_BASE_LAYER || selection.id === MBTILES_BASE_LAYER) return null
+  return BASE_LAYERS.find((layer) => layer.id === selection.id) ?? BASE_LAYERS[0]
+}
+
+export function isValidBaseLayerSelection(selection: BaseLayerSelection): boolean {
+  if (selection.id === CUSTOM_BASE_LAYER) return !!selection.customUrl && normalizeTileUrl(selection.customUrl) !== null
+  return (
+    selection.id === NO_BASE_LAYER ||
+    selection.id === MBTILES_BASE_LAYER ||
+    BASE_LAYERS.some((layer) => layer.id === selection.id)
+  )
+}
+
+// The choice is kept in localStorage, which is unavailable when rendering on the server or if the user blocks it
+export function loadBaseLayerSelection(): BaseLayerSelection {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null")
+    if (stored && typeof stored.id === "string" && isValidBaseLayerSelection(stored)) {
+      return { id: stored.id, customUrl: typeof stored.customUrl === "string" ? stored.customUrl : undefined }
+    }
+  } catch (error) {
+    console.warn("Could not read the base layer choice:", error)
+  }
+  return DEFAULT_BASE_LAYER
+}
+
+export function saveBaseLayerSelection(selection: BaseLayerSelection) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection))
+  } catch (error) {
+    console.warn("Could not store the base layer choice:", error)
+  }
+}
@@ -0,0 +1,259 @@
+import { createContentId, createUniqueIds } from "./element-ids"
+import { calculateGeometryMetadata } from "./geo"
+import type { KmlData, KmlElement, KmlGeometry, ParseDiagnostic } from "./types"
+import { parseWkt } from "./wkt-parser"
+
+// Delimiters offered for CSV files, auto-detected by default
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number]
+
+// Which columns (by index) hold the geometry, name and description
+export interface CsvColumnMapping {
+  mode: "latlng" | "wkt"
+  latitude?: number
+  longitude?: number
+  wkt?: number
+  name?: number
+  description?: number
+}
+
+// What the user chose when importing a CSV file, kept so the file can be read the same way again
+export interface CsvImportOptions {
+  delimiter: CsvDelimiter
+  mapping: CsvColumnMapping
+}
+
+// Header names recognized when guessing the mapping (compared lowercased, without accents)
+const LATITUDE_COLUMNS = ["lat", "latitude", "y", "lat_dd", "latitud"]
+const LONGITUDE_COLUMNS = ["lon", "lng", "long", "longitude", "x", "lon_dd", "longitud"]
+const WKT_COLUMNS = ["wkt", "geometry", "geometria", "geom", "the_geom", "shape"]
+const NAME_COLUMNS = ["name", "nome", "title", "titulo", "label", "id"]
+const DESCRIPTION_COLUMNS = ["description", "descricao", "desc", "observacao", "obs", "comentario"]
+
+// Numbers of the skipped rows named in their diagnostic
+const MAX_LISTED_ROWS = 5
+
+// Parse delimited text into rows of fields, following RFC 4180 quoting ("" escapes a quote inside a quoted field)
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  // Skip the byte order mark left by spreadsheet exports
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""))
+}
+
+// Pick the delimiter that splits the first lines into the most consistent number of columns
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.split(/\r?\n/).slice(0, 10).join("\n")
+  let best: CsvDelimiter = ","
+  let bestScore = 0
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = parseCsv(sample, delimiter).map((row) => row.length)
+    if (counts.length === 0 || counts[0] < 2) return
+
+    // Rows matching the header's column count, weighted by the column count
+    const score = counts.filter((count) => count === counts[0]).length * counts[0]
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+// Guess the mapping from the header names
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) =>
+    header
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .trim()
+      .toLowerCase(),
+  )
+  const find = (names: string[]) => {
+    const index = normalized.findIndex((header) => names.includes(header))
+    return index >= 0 ? index : undefined
+  }
+
+  const latitude = find(LATITUDE_COLUMNS)
+  const longitude = find(LONGITUDE_COLUMNS)
+  const wkt = find(WKT_COLUMNS)
+
+  return {
+    mode: wkt !== undefined && (latitude === undefined || longitude === undefined) ? "wkt" : "latlng",
+    latitude,
+    longitude,
+    wkt,
+    name: find(NAME_COLUMNS),
+    description: find(DESCRIPTION_COLUMNS),
+  }
+}
+
+// Whether the mapping has the columns needed to build geometries
+export function isMappingComplete(mapping: CsvColumnMapping): boolean {
+  return mapping.mode === "wkt"
+    ? mapping.wkt !== undefined
+    : mapping.latitude !== undefined && mapping.longitude !== undefined
+}
+
+/**
+ * Parse a latitude or longitude in decimal or DMS notation
+ * Accepts "-23.5505", "-23,5505", "23°33'01.8\"S", "23 33 1.8 S", "S 23° 33.03'" and "46:38:01W".
+ * Hemisphere letters may be English or Portuguese (L = east, O = west).
+ * @returns Decimal degrees, or undefined when the value can't be read
+ */
+export function parseCoordinateValue(value: string): number | undefined {
+  const text = value.trim().toUpperCase()
+  if (!text) return undefined
+
+  // Plain decimal, with either decimal separator
+  if (/^[-+]?\d+([.,]\d+)?$/.test(text)) {
+    return Number.parseFloat(text.replace(",", "."))
+  }
+
+  const hemisphere = text.match(/[NSEWLO]/)?.[0]
+  const numbers = text.match(/\d+(?:[.,]\d+)?/g)
+  if (!numbers || numbers.length > 3) return undefined
+
+  const [degrees, minutes = 0, seconds = 0] = numbers.map((number) => Number.parseFloat(number.replace(",", ".")))
+  if (minutes >= 60 || seconds >= 60) return undefined
+
+  const isNegative = text.startsWith("-") || hemisphere === "S" || hemisphere === "W" || hemisphere === "O"
+  const decimal = degrees + minutes / 60 + seconds / 3600
+  return isNegative ? -decimal : decimal
+}
+
+/**
+ * Create KmlData from CSV rows, the first row being the header
+ * Columns not used for the geometry, name or description are kept in extendedData
+ * @param rows Parsed rows, including the header
+ * @param mapping Columns holding the geometry, name and description
+ */
+export function createCsvData(rows: string[][], mapping: CsvColumnMapping): KmlData {
+  if (!isMappingComplete(mapping)) {
+    throw new Error(
+      mapping.mode === "wkt" ? "No WKT column selected" : "Latitude and longitude columns must be selected",
+    )
+  }
+
+  const [headers = [], ...records] = rows
+  const diagnostics: ParseDiagnostic[] = []
+  const elements: KmlElement[] = []
+  const uniqueId = createUniqueIds()
+
+  const mappedColumns = new Set(
+    (mapping.mode === "wkt" ? [mapping.wkt] : [mapping.latitude, mapping.longitude]).concat(
+      mapping.name,
+      mapping.description,
+    ),
+  )
+
+  // Rows without a geometry are reported together, as a wrong column can affect every row
+  const skippedRows: number[] = []
+
+  records.forEach((record, index) => {
+    const geometry = parseRecordGeometry(record, mapping)
+    if (!geometry) {
+      // Rows are numbered as in a spreadsheet, the header being row 1
+      skippedRows.push(index + 2)
+      return
+    }
+
+    const extendedData: Record<string, string> = {}
+    headers.forEach((header, column) => {
+      const value = record[column]?.trim()
+      if (!mappedColumns.has(column) && value) {
+        extendedData[header.trim() || `Coluna ${column + 1}`] = value
+      }
+    })
+
+    elements.push({
+      // Rows have no ids, and their number changes when rows are added above them
+      id: uniqueId(createContentId("row", record)),
+      type: geometry.type,
+      name: mapping.name !== undefined ? record[mapping.name]?.trim() || undefined : undefined,
+      description: mapping.description !== undefined ? record[mapping.description]?.trim() || undefined : undefined,
+      coordinates: geometry.coordinates,
+      geometries: geometry.geometries,
+      extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
+      metadata: calculateGeometryMetadata(geometry),
+    })
+  })
+
+  if (skippedRows.length > 0) {
+    const rows = skippedRows.length === 1 ? "row" : "rows"
+    const problem = mapping.mode === "wkt" ? "invalid or empty WKT" : "invalid coordinates"
+    const listedRows =
+      skippedRows.slice(0, MAX_LISTED_ROWS).join(", ") + (skippedRows.length > MAX_LISTED_ROWS ? ", ..." : "")
+    diagnostics.push({
+      severity: "warning",
+      message: `${skippedRows.length} ${rows} with ${problem} skipped (${rows} ${listedRows})`,
+    })
+  }
+  if (elements.length === 0) {
+    diagnostics.push({ severity: "warning", message: "No rows with valid coordinates found in the file" })
+  }
+
+  return {
+    folders: [],
+    elements,
+    networkLinks: [],
+    diagnostics,
+  }
+}
+
+// Geometry of a row, null when its columns don't hold a valid one
+function parseRecordGeometry(record: string[], mapping: CsvColumnMapping): KmlGeometry | null {
+  if (mapping.mode === "wkt") {
+    const wkt = record[mapping.wkt!]?.trim()
+    return wkt ? parseWkt(wkt) : null
+  }
+
+  const lat = parseCoordinateValue(record[mapping.latitude!] ?? "")
+  const lng = parseCoordinateValue(record[mapping.longitude!] ?? "")
+  if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null
+  }
+
+  return { type: "Point", coordinates: [lng, lat, 0] as unknown as number[][] }
+}
@@ -0,0 +1,19 @@
+import type { AttributeTable, AttributeValue } from "./attribute-table"
+import type { CsvDelimiter } from "./csv-parser"
+
+// Text starting with these is run as a formula by spreadsheets
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/
+
+// Serialize a table to CSV, quoting fields per RFC 4180 when they contain the delimiter, quotes or line breaks
+// Starts with a byte order mark so Excel reads the file as UTF-8.
+// Text that would be read as a formula (the values come from the loaded files) is prefixed with an apostrophe.
+export function serializeCsv(table: AttributeTable, delimiter: CsvDelimiter = ","): string {
+  const formatField = (value: AttributeValue) => {
+    if (value === null) return ""
+    const text = typeof value === "string" && FORMULA_PREFIX_REGEX.test(value) ? `'${value}` : value.toString()
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const lines = [table.headers, ...table.rows].map((row) => row.map(formatField).join(delimiter))
+  return "\uFEFF" + lines.join("\r\n") + "\r\n"
+}
@@ -0,0 +1,95 @@
+import { v4 as uuidv4 } from "uuid"
+import { scopeKmlDataIds } from "./element-ids"
+import type { FileFormat } from "./parse-file"
+import { getRecentFileId } from "./recent-files"
+import type { KmlData, KmlElement } from "./types"
+
+// A loaded file, shown on the map as its own layer
+export interface DataLayer {
+  id: string
+  fileId: string // Recent file it was loaded from, the same for every layer loaded from that file
+  name: string // Name of the file it was loaded from
+  fileSize: number
+  fileType: FileFormat
+  idPrefix: string // Prefix of the ids of its elements and folders, unique among the loaded layers
+  kmlData: KmlData
+  visible: boolean
+  opacity: number // 0-1, applied to everything the layer draws
+}
+
+// Element ids are prefixed with the file name, so they stay the same when the file is loaded again,
+// and with a counter when a loaded layer already uses that prefix (e.g. the same file loaded twice)
+export function createDataLayer(
+  file: File,
+  fileType: FileFormat,
+  kmlData: KmlData,
+  loadedLayers: DataLayer[] = [],
+): DataLayer {
+  const usedPrefixes = new Set(loadedLayers.map((layer) => layer.idPrefix))
+  let idPrefix = `${file.name}/`
+  for (let count = 2; usedPrefixes.has(idPrefix); count++) {
+    idPrefix = `${file.name} (${count})/`
+  }
+
+  return {
+    id: uuidv4(),
+    fileId: getRecentFileId(file),
+    name: file.name,
+    fileSize: file.size,
+    fileType,
+    idPrefix,
+    kmlData: scopeKmlDataIds(kmlData, idPrefix),
+    visible: true,
+    opacity: 1,
+  }
+}
+
+// All layers as a single KmlData, for the views that cover every layer (elements list, export, time slider)
+// Embedded KMZ files are merged by archive path, so a path found in two files resolves to the later layer's file.
+export function mergeDataLayers(layers: DataLayer[]): KmlData {
+  const data = layers.map((layer) => layer.kmlData)
+  const extents = data.flatMap((kmlData) => (kmlData.timeExtent ? [kmlData.timeExtent] : []))
+  const resources = data.filter((kmlData) => kmlData.resources)
+
+  return {
+    name: data.length === 1 ? data[0].name : undefined,
+    description: data.length === 1 ? data[0].description : undefined,
+    folders: data.flatMap((kmlData) => kmlData.folders),
+    elements: data.flatMap((kmlData) => kmlData.elements),
+    networkLinks: data.flatMap((kmlData) => kmlData.networkLinks),
+    timeExtent:
+      extents.length > 0
+        ? {
+            begin: Math.min(...extents.map((extent) => extent.begin)),
+            end: Math.max(...extents.map((extent) => extent.end)),
+          }
+        : undefined,
+    resources: resources.length > 0 ? Object.assign({}, ...resources.map((kmlData) => kmlData.resources)) : undefined,
+    diagnostics: data.flatMap((kmlData) => kmlData.diagnostics),
+  }
+}
+
+// Move a layer up (negative offset, towards the top of the stack) or down the list
+export function moveDataLayer(layers: DataLayer[], layerId: string, offset: number): DataLayer[] {
+  const index = layers.findIndex((layer) => layer.id === layerId)
+  const target = index + offset
+  if (index < 0 || target < 0 || target >= layers.length) return layers
+
+  const next = [...layers]
+  const [layer] = next.splice(index, 1)
+  next.splice(target, 0, layer)
+  return next
+}
+
+// Layer an element was loaded from
+export function findElementLayer(layers: DataLayer[], element: KmlElement): DataLayer | undefined {
+  return layers.find((layer) => layer.kmlData.elements.includes(element))
+}
+
+export function findElementById(layers: DataLayer[], elementId: string): KmlElement | undefined {
+  for (const layer of layers) {
+    const element = layer.kmlData.elements.find((candidate) => candidate.id === elementId)
+    if (element) return element
+  }
+  return undefined
+}
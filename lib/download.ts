@@ -0,0 +1,19 @@
+// Save a Blob as a file through a temporary link
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Revoked later, since some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Name of an exported file, based on the name of the loaded file ("rotas.kmz" -> "rotas.kml")
+export function getExportFileName(sourceFileName: string | null | undefined, extension: string): string {
+  const baseName = sourceFileName?.replace(/\.[^./\\]+$/, "") || "export"
+  return `${baseName}.${extension}`
+}
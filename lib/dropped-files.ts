@@ -0,0 +1,49 @@
+import { isSupportedFile } from "./parse-file"
+
+// Files dropped on the page, including the supported files found in dropped folders (and their subfolders)
+// Must be called from the drop event handler: the dropped entries are only available while the event is dispatched.
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const items = Array.from(dataTransfer.items || []).filter((item) => item.kind === "file")
+  const entries = items.map((item) => item.webkitGetAsEntry?.() ?? null)
+
+  // Browsers without the entries API only give the dropped files
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return Array.from(dataTransfer.files)
+  }
+
+  const files = await Promise.all(
+    entries.map((entry) =>
+      entry!.isDirectory
+        ? readDirectory(entry as FileSystemDirectoryEntry)
+        : readFileEntry(entry as FileSystemFileEntry).then((file) => [file]),
+    ),
+  )
+  return files.flat()
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<File[]> {
+  const entries = await readAllEntries(directory.createReader())
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      if (entry.isDirectory) return readDirectory(entry as FileSystemDirectoryEntry)
+      // Folders often hold other files (images, documents), which are skipped rather than reported
+      if (!isSupportedFile(entry.name)) return []
+      return [await readFileEntry(entry as FileSystemFileEntry)]
+    }),
+  )
+  return files.flat()
+}
+
+// readEntries returns the entries in batches, until an empty one
+async function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
@@ -0,0 +1,73 @@
+import type { KmlData, KmlFolder } from "./types"
+
+// Element, folder and NetworkLink ids are derived from the file, so they are the same every time it is loaded
+// and can be used in links and stored state. Parsers only make them unique within the file: each data layer
+// prefixes the ids of its file (see scopeKmlDataIds), so two files, or the same file loaded twice, don't collide.
+
+// 53-bit hash of a string (cyrb53), in base 36
+export function hashString(text: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * Id of something that has no id in the file, from where it is in the document and what it contains
+ * @param prefix Kind of object, e.g. "placemark"
+ * @param content Values that identify it, e.g. its folder id, name and coordinates
+ */
+export function createContentId(prefix: string, content: unknown[]): string {
+  return `${prefix}-${hashString(JSON.stringify(content))}`
+}
+
+// Returns ids unchanged the first time they are seen, and with a counter after that (in document order),
+// for repeated id attributes and identical features in the same folder
+export function createUniqueIds(): (id: string) => string {
+  const used = new Set<string>()
+
+  return (id) => {
+    let uniqueId = id
+    for (let count = 2; used.has(uniqueId); count++) {
+      uniqueId = `${id}~${count}`
+    }
+    used.add(uniqueId)
+    return uniqueId
+  }
+}
+
+// Prefix every id of the data, and the references to them
+export function scopeKmlDataIds(kmlData: KmlData, prefix: string): KmlData {
+  const scope = (id: string) => `${prefix}${id}`
+  const scopeOptional = (id: string | undefined) => (id === undefined ? undefined : scope(id))
+  const scopeFolder = (folder: KmlFolder): KmlFolder => ({
+    ...folder,
+    id: scope(folder.id),
+    parentId: scopeOptional(folder.parentId),
+    children: folder.children.map(scopeFolder),
+  })
+
+  return {
+    ...kmlData,
+    folders: kmlData.folders.map(scopeFolder),
+    elements: kmlData.elements.map((element) => ({
+      ...element,
+      id: scope(element.id),
+      folderId: scopeOptional(element.folderId),
+    })),
+    networkLinks: kmlData.networkLinks.map((link) => ({
+      ...link,
+      id: scope(link.id),
+      folderId: scopeOptional(link.folderId),
+    })),
+    diagnostics: kmlData.diagnostics.map((diagnostic) =>
+      diagnostic.elementId ? { ...diagnostic, elementId: scope(diagnostic.elementId) } : diagnostic,
+    ),
+  }
+}
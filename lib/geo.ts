@@ -0,0 +1,187 @@
+import type { KmlElement, KmlGeometry } from "./types"
+
+// Length (km) and area (km²) of a geometry, summed over MultiGeometry children
+export function calculateGeometryMetadata(geometry: KmlGeometry): KmlElement["metadata"] {
+  switch (geometry.type) {
+    case "LineString":
+      return { length: calculateLineLength(geometry.coordinates) }
+
+    case "Track": {
+      // Do not count the gaps between gx:MultiTrack segments
+      const segments = geometry.geometries || [geometry]
+      return { length: segments.reduce((sum, segment) => sum + calculateLineLength(segment.coordinates), 0) }
+    }
+
+    case "Polygon": {
+      const [outerRing, ...holes] = geometry.coordinates as unknown as number[][][]
+      const holesArea = holes.reduce((sum, hole) => sum + calculatePolygonArea(hole), 0)
+      return { area: Math.max(calculatePolygonArea(outerRing) - holesArea, 0) }
+    }
+
+    case "MultiGeometry": {
+      const parts = (geometry.geometries || []).map(calculateGeometryMetadata)
+      const length = parts.reduce((sum, part) => sum + (part?.length || 0), 0)
+      const area = parts.reduce((sum, part) => sum + (part?.area || 0), 0)
+      return {
+        length: length > 0 ? length : undefined,
+        area: area > 0 ? area : undefined,
+      }
+    }
+
+    default:
+      return undefined
+  }
+}
+
+// Sum of the distances between consecutive coordinates, in km
+export function calculateLineLength(coordinates: number[][]): number {
+  let length = 0
+  for (let i = 1; i < coordinates.length; i++) {
+    length += calculateDistance(coordinates[i - 1][1], coordinates[i - 1][0], coordinates[i][1], coordinates[i][0])
+  }
+  return length
+}
+
+// Calculate distance between two points in km using Haversine formula
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371 // Earth radius in km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180
+  const dLon = ((lon2 - lon1) * Math.PI) / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+// Calculate polygon area (approximate, in km²)
+export function calculatePolygonArea(coordinates: number[][]): number {
+  if (coordinates.length < 3) return 0
+
+  let area = 0
+  const R = 6371 // Earth radius in km
+
+  for (let i = 0; i < coordinates.length; i++) {
+    const j = (i + 1) % coordinates.length
+
+    const lat1 = (coordinates[i][1] * Math.PI) / 180
+    const lon1 = (coordinates[i][0] * Math.PI) / 180
+    const lat2 = (coordinates[j][1] * Math.PI) / 180
+    const lon2 = (coordinates[j][0] * Math.PI) / 180
+
+    area += (lon2 - lon1) * (2 + Math.sin(lat1) + Math.sin(lat2))
+  }
+
+  area = Math.abs((area * R * R) / 2)
+  return area
+}
+
+// Representative [lng, lat] of a geometry, for tables and labels
+// Polygons use the area centroid of their outer ring, lines the length-weighted midpoint of their segments,
+// and MultiGeometry the mean of its parts' centroids.
+export function calculateCentroid(geometry: KmlGeometry | KmlElement): number[] | undefined {
+  switch (geometry.type) {
+    case "Point": {
+      const [lng, lat] = geometry.coordinates as unknown as number[]
+      return [lng, lat]
+    }
+
+    case "LineString":
+    case "Track":
+      return calculateLineCentroid(geometry.coordinates)
+
+    case "Polygon":
+      return calculateRingCentroid((geometry.coordinates as unknown as number[][][])[0] || [])
+
+    case "GroundOverlay":
+      // The four corners
+      return calculateVertexMean(geometry.coordinates)
+
+    case "MultiGeometry": {
+      const centroids = (geometry.geometries || [])
+        .map(calculateCentroid)
+        .filter((centroid): centroid is number[] => centroid !== undefined)
+      return calculateVertexMean(centroids)
+    }
+
+    default:
+      return undefined
+  }
+}
+
+function calculateLineCentroid(coordinates: number[][]): number[] | undefined {
+  let totalLength = 0
+  let lng = 0
+  let lat = 0
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lng1, lat1] = coordinates[i - 1]
+    const [lng2, lat2] = coordinates[i]
+    const length = calculateDistance(lat1, lng1, lat2, lng2)
+    totalLength += length
+    lng += ((lng1 + lng2) / 2) * length
+    lat += ((lat1 + lat2) / 2) * length
+  }
+
+  // Lines with a single point or no length at all
+  if (totalLength === 0) return calculateVertexMean(coordinates)
+  return [lng / totalLength, lat / totalLength]
+}
+
+// Planar centroid in degrees, accurate enough for polygons that don't span large distances
+function calculateRingCentroid(ring: number[][]): number[] | undefined {
+  let area = 0
+  let lng = 0
+  let lat = 0
+
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i]
+    const [lng2, lat2] = ring[(i + 1) % ring.length]
+    const cross = lng1 * lat2 - lng2 * lat1
+    area += cross
+    lng += (lng1 + lng2) * cross
+    lat += (lat1 + lat2) * cross
+  }
+
+  // Degenerate rings have no area to weight by
+  if (area === 0) return calculateVertexMean(ring)
+  return [lng / (3 * area), lat / (3 * area)]
+}
+
+function calculateVertexMean(coordinates: number[][]): number[] | undefined {
+  if (coordinates.length === 0) return undefined
+  const sum = coordinates.reduce(([lng, lat], coordinate) => [lng + coordinate[0], lat + coordinate[1]], [0, 0])
+  return [sum[0] / coordinates.length, sum[1] / coordinates.length]
+}
+
+// South-west and north-east corners, as [lat, lng]
+export type GeoBounds = [[number, number], [number, number]]
+
+// Bounds of the coordinates of elements or geometries, undefined when they have none
+export function calculateBounds(geometries: (KmlGeometry | KmlElement)[]): GeoBounds | undefined {
+  let south = Infinity
+  let west = Infinity
+  let north = -Infinity
+  let east = -Infinity
+
+  // Positions are nested to a depth that depends on the geometry type
+  const extend = (coordinates: unknown) => {
+    if (!Array.isArray(coordinates)) return
+    if (typeof coordinates[0] === "number") {
+      const [lng, lat] = coordinates as number[]
+      south = Math.min(south, lat)
+      north = Math.max(north, lat)
+      west = Math.min(west, lng)
+      east = Math.max(east, lng)
+      return
+    }
+    coordinates.forEach(extend)
+  }
+  const extendGeometry = (geometry: KmlGeometry | KmlElement) => {
+    extend(geometry.coordinates)
+    geometry.geometries?.forEach(extendGeometry)
+  }
+  geometries.forEach(extendGeometry)
+
+  return Number.isFinite(south) ? [[south, west], [north, east]] : undefined
+}
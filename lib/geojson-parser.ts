@@ -0,0 +1,208 @@
+import { createContentId, createUniqueIds } from "./element-ids"
+import { calculateGeometryMetadata } from "./geo"
+import { getErrorMessage } from "./parse-diagnostics"
+import type { GeoJsonFeature, GeoJsonGeometry, KmlData, KmlElement, KmlGeometry, ParseDiagnostic } from "./types"
+
+// Properties used for the element name and description instead of being kept in extendedData
+const NAME_PROPERTIES = ["name", "title", "Name", "NAME"]
+const DESCRIPTION_PROPERTIES = ["description", "Description", "DESCRIPTION"]
+
+// Parse a GeoJSON string (FeatureCollection, Feature or bare geometry) to KmlData
+// Feature properties land in extendedData; coordinates are assumed to be WGS84 as required by RFC 7946
+export function parseGeoJson(geoJsonString: string): KmlData {
+  let geoJson: unknown
+  try {
+    geoJson = JSON.parse(geoJsonString)
+  } catch (error) {
+    throw new Error(`Invalid GeoJSON: ${getErrorMessage(error)}`)
+  }
+
+  // Only the members read here are checked, features are checked one by one when they are parsed
+  const root: { type?: unknown; name?: unknown; features?: unknown } =
+    typeof geoJson === "object" && geoJson !== null ? geoJson : {}
+
+  let features: GeoJsonFeature[]
+  switch (root.type) {
+    case "FeatureCollection":
+      if (!Array.isArray(root.features)) {
+        throw new Error("Invalid GeoJSON: FeatureCollection has no features array")
+      }
+      features = root.features
+      break
+    case "Feature":
+      features = [root as GeoJsonFeature]
+      break
+    default:
+      if (!isGeometryType(root.type)) {
+        throw new Error("Invalid GeoJSON: expected a FeatureCollection, Feature or geometry")
+      }
+      features = [{ type: "Feature", geometry: root as GeoJsonGeometry, properties: null }]
+  }
+
+  const diagnostics: ParseDiagnostic[] = []
+  const elements: KmlElement[] = []
+  const uniqueId = createUniqueIds()
+
+  features.forEach((feature, index) => {
+    const element = parseFeature(feature, index, diagnostics, uniqueId)
+    if (element) elements.push(element)
+  })
+
+  if (elements.length === 0) {
+    diagnostics.push({ severity: "warning", message: "No features with geometry found in the file" })
+  }
+
+  return {
+    name: typeof root.name === "string" ? root.name : undefined,
+    folders: [],
+    elements,
+    networkLinks: [],
+    diagnostics,
+  }
+}
+
+function isGeometryType(type: unknown): boolean {
+  return (
+    typeof type === "string" &&
+    ["Point", "MultiPoint", "LineString", "MultiLineString", "Polygon", "MultiPolygon", "GeometryCollection"].includes(
+      type,
+    )
+  )
+}
+
+// Convert a Feature, taking its name and description from the usual properties
+function parseFeature(
+  feature: GeoJsonFeature,
+  index: number,
+  diagnostics: ParseDiagnostic[],
+  uniqueId: (id: string) => string,
+): KmlElement | null {
+  if (feature?.type !== "Feature") {
+    diagnostics.push({ severity: "warning", message: `Item ${index + 1} of the FeatureCollection is not a Feature, skipped` })
+    return null
+  }
+
+  const label = `Feature ${index + 1}`
+  if (!feature.geometry) {
+    diagnostics.push({ severity: "info", message: `${label} has no geometry, skipped` })
+    return null
+  }
+
+  // Collected separately so they can point at the element once it is known to be kept
+  const featureDiagnostics: ParseDiagnostic[] = []
+  const geometry = parseGeometry(feature.geometry, featureDiagnostics, label)
+  if (!geometry) {
+    diagnostics.push(...featureDiagnostics, {
+      severity: "warning",
+      message: `${label} has no valid ${feature.geometry.type} coordinates, skipped`,
+    })
+    return null
+  }
+
+  // The feature id when there is one, otherwise its properties and geometry
+  const id = uniqueId(
+    feature.id != null && feature.id !== ""
+      ? String(feature.id)
+      : createContentId("feature", [feature.properties ?? null, feature.geometry]),
+  )
+  diagnostics.push(...featureDiagnostics.map((diagnostic) => ({ ...diagnostic, elementId: id })))
+
+  const properties = feature.properties && typeof feature.properties === "object" ? feature.properties : {}
+  const nameKey = NAME_PROPERTIES.find((key) => properties[key] != null && properties[key] !== "")
+  const descriptionKey = DESCRIPTION_PROPERTIES.find((key) => properties[key] != null && properties[key] !== "")
+
+  const extendedData: Record<string, string> = {}
+  Object.entries(properties).forEach(([key, value]) => {
+    if (key === nameKey || key === descriptionKey || value == null) return
+    extendedData[key] = typeof value === "object" ? JSON.stringify(value) : String(value)
+  })
+
+  return {
+    id,
+    type: geometry.type,
+    name: nameKey ? String(properties[nameKey]) : undefined,
+    description: descriptionKey ? String(properties[descriptionKey]) : undefined,
+    coordinates: geometry.coordinates,
+    geometries: geometry.geometries,
+    extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
+    metadata: calculateGeometryMetadata(geometry),
+  }
+}
+
+// Convert a geometry; Multi* geometries and GeometryCollections become MultiGeometry
+function parseGeometry(geometry: GeoJsonGeometry, diagnostics: ParseDiagnostic[], label: string): KmlGeometry | null {
+  const coordinates = geometry.coordinates
+
+  switch (geometry.type) {
+    case "Point": {
+      const position = parsePosition(coordinates, diagnostics, label)
+      return position ? { type: "Point", coordinates: position as unknown as number[][] } : null
+    }
+
+    case "LineString": {
+      const positions = parsePositions(coordinates, diagnostics, label)
+      return positions.length > 0 ? { type: "LineString", coordinates: positions } : null
+    }
+
+    case "Polygon": {
+      // The first ring is the outer boundary, the others are holes
+      const rings = Array.isArray(coordinates) ? coordinates.map((ring) => parsePositions(ring, diagnostics, label)) : []
+      if (rings.length === 0 || rings[0].length === 0) return null
+      return { type: "Polygon", coordinates: rings.filter((ring) => ring.length > 0) as unknown as number[][] }
+    }
+
+    case "MultiPoint":
+    case "MultiLineString":
+    case "MultiPolygon": {
+      const partType = geometry.type.substring("Multi".length)
+      const parts = Array.isArray(coordinates) ? coordinates : []
+      return createMultiGeometry(
+        parts.map((part) => parseGeometry({ type: partType, coordinates: part }, diagnostics, label)),
+      )
+    }
+
+    case "GeometryCollection":
+      return createMultiGeometry(
+        (geometry.geometries || []).map((child) => parseGeometry(child, diagnostics, label)),
+      )
+
+    default:
+      diagnostics.push({ severity: "warning", message: `${label} has unsupported geometry type ${geometry.type}` })
+      return null
+  }
+}
+
+function createMultiGeometry(parts: (KmlGeometry | null)[]): KmlGeometry | null {
+  const geometries = parts.filter((part): part is KmlGeometry => part !== null)
+  return geometries.length > 0 ? { type: "MultiGeometry", coordinates: [], geometries } : null
+}
+
+function parsePositions(value: unknown, diagnostics: ParseDiagnostic[], label: string): number[][] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map((position) => parsePosition(position, diagnostics, label))
+    .filter((position): position is number[] => position !== null)
+}
+
+// Parse a [lng, lat, alt?] position, in the same layout as KML coordinates
+// Invalid positions are reported and skipped rather than replaced, so nothing is drawn at a made-up position
+function parsePosition(value: unknown, diagnostics: ParseDiagnostic[], label: string): number[] | null {
+  const [lng, lat, alt = 0] = Array.isArray(value) ? value : []
+
+  if (
+    typeof lng !== "number" ||
+    typeof lat !== "number" ||
+    !isFinite(lng) ||
+    !isFinite(lat) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    diagnostics.push({
+      severity: "warning",
+      message: `${label}: invalid coordinate ${JSON.stringify(value)} skipped`,
+    })
+    return null
+  }
+
+  return [lng, lat, typeof alt === "number" && isFinite(alt) ? alt : 0]
+}
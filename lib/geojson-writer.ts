@@ -0,0 +1,75 @@
+import type { GeoJsonFeature, GeoJsonFeatureCollection, GeoJsonGeometry, KmlElement, KmlGeometry } from "./types"
+
+// Convert elements to a GeoJSON FeatureCollection
+// Name, description and extendedData become properties. Tracks are written as lines without their times,
+// and GroundOverlays are left out since GeoJSON has no images.
+export function toGeoJson(elements: KmlElement[], name?: string): GeoJsonFeatureCollection {
+  const features: GeoJsonFeature[] = []
+
+  elements.forEach((element) => {
+    const geometry = toGeoJsonGeometry(element as KmlGeometry)
+    if (!geometry) return
+
+    const properties: Record<string, unknown> = {}
+    if (element.name) properties.name = element.name
+    if (element.description) properties.description = element.description
+    Object.assign(properties, element.extendedData)
+
+    features.push({ type: "Feature", geometry, properties })
+  })
+
+  return { type: "FeatureCollection", ...(name ? { name } : {}), features }
+}
+
+// Serialize elements to a GeoJSON string
+export function serializeGeoJson(elements: KmlElement[], name?: string): string {
+  return JSON.stringify(toGeoJson(elements, name))
+}
+
+// Convert a geometry, or return null when it has no GeoJSON equivalent (GroundOverlay)
+export function toGeoJsonGeometry(geometry: KmlGeometry): GeoJsonGeometry | null {
+  switch (geometry.type) {
+    case "Point":
+      return { type: "Point", coordinates: geometry.coordinates }
+
+    case "LineString":
+      return { type: "LineString", coordinates: geometry.coordinates }
+
+    case "Polygon":
+      return {
+        type: "Polygon",
+        coordinates: (geometry.coordinates as unknown as number[][][]).map(closeRing),
+      }
+
+    case "Track":
+      // gx:MultiTrack segments stay separate lines
+      return geometry.geometries
+        ? { type: "MultiLineString", coordinates: geometry.geometries.map((segment) => segment.coordinates) }
+        : { type: "LineString", coordinates: geometry.coordinates }
+
+    case "MultiGeometry": {
+      const parts = (geometry.geometries || [])
+        .map(toGeoJsonGeometry)
+        .filter((part): part is GeoJsonGeometry => part !== null)
+      if (parts.length === 0) return null
+
+      // Parts of a single simple type become a Multi* geometry, mixed parts a GeometryCollection
+      const partType = parts[0].type
+      if (["Point", "LineString", "Polygon"].includes(partType) && parts.every((part) => part.type === partType)) {
+        return { type: `Multi${partType}`, coordinates: parts.map((part) => part.coordinates) }
+      }
+      return { type: "GeometryCollection", geometries: parts }
+    }
+
+    default:
+      return null
+  }
+}
+
+// GeoJSON requires linear rings to end with their first position
+function closeRing(ring: number[][]): number[][] {
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  if (!first || first.every((value, index) => value === last[index])) return ring
+  return [...ring, first]
+}
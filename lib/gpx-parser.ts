@@ -0,0 +1,309 @@
+import { createContentId, createUniqueIds } from "./element-ids"
+import { calculateGeometryMetadata } from "./geo"
+import { parseTextStream, type KmlStreamParser } from "./kml-parser"
+import { getErrorMessage } from "./parse-diagnostics"
+import { getTimeExtent, parseKmlTime } from "./time-filter"
+import type { KmlData, KmlElement, KmlGeometry, KmlTimeSpan, ParseDiagnostic, ParseProgress } from "./types"
+import {
+  getChildText,
+  XmlStreamParser,
+  type XmlElement,
+  type XmlStreamHandler,
+} from "./xml-stream-parser"
+
+// Elements whose whole subtree is collected and converted once they are closed
+const FEATURE_TAGS = ["metadata", "wpt", "rte", "trk"]
+
+// Waypoint and route fields without an element field, kept in extendedData
+const EXTRA_FIELDS = ["cmt", "src", "sym", "type"]
+
+// A trkpt, rtept or wpt
+interface GpxPoint {
+  coordinate: number[] // [lon, lat, ele]
+  time?: number
+}
+
+// Parse a UTF-8 encoded GPX (1.0 or 1.1) stream, reporting progress as the bytes are read
+export async function parseGpxStream(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<KmlData> {
+  return parseTextStream(stream, totalBytes, createGpxStreamParser(), "GPX", onProgress)
+}
+
+// Waypoints become Points, routes LineStrings and tracks time-stamped Tracks (or lines, when times are missing)
+export function createGpxStreamParser(): KmlStreamParser {
+  const diagnostics: ParseDiagnostic[] = []
+  const elements: KmlElement[] = []
+  const document: { name?: string; description?: string } = {}
+  const uniqueId = createUniqueIds()
+
+  let hasGpxRoot = false
+  let featureCount = 0
+  const counts: Record<string, number> = { wpt: 0, rte: 0, trk: 0 }
+
+  // Nesting depth of the open elements outside features
+  let depth = 0
+  // GPX 1.0 puts the file name and description directly in <gpx>
+  let rootField: { name: string; text: string } | null = null
+  // Subtree of the feature being read
+  const featureStack: XmlElement[] = []
+
+  const handleFeature = (feature: XmlElement) => {
+    if (feature.name === "metadata") {
+      document.name = getChildText(feature, "name") ?? document.name
+      document.description = getChildText(feature, "desc") ?? document.description
+      return
+    }
+
+    const index = counts[feature.name]++
+    featureCount++
+
+    try {
+      const element =
+        feature.name === "wpt"
+          ? parseWaypoint(feature, index, diagnostics)
+          : feature.name === "rte"
+            ? parseRoute(feature, index, diagnostics)
+            : parseTrack(feature, index, diagnostics)
+      if (element) elements.push({ ...element, id: uniqueId(element.id) })
+    } catch (error) {
+      diagnostics.push({
+        severity: "error",
+        message: `Error parsing ${feature.name}: ${getErrorMessage(error)}`,
+        ...feature.position,
+      })
+    }
+  }
+
+  const handler: XmlStreamHandler = {
+    onOpenTag(name, attributes, position) {
+      if (featureStack.length > 0) {
+        const element: XmlElement = { name, attributes, children: [], text: "", position }
+        featureStack[featureStack.length - 1].children.push(element)
+        featureStack.push(element)
+        return
+      }
+
+      depth++
+
+      if (FEATURE_TAGS.includes(name)) {
+        featureStack.push({ name, attributes, children: [], text: "", position })
+      } else if (name === "gpx") {
+        hasGpxRoot = true
+      } else if (depth === 2 && (name === "name" || name === "desc")) {
+        rootField = { name, text: "" }
+      }
+    },
+
+    onText(text) {
+      if (featureStack.length > 0) {
+        featureStack[featureStack.length - 1].text += text
+      } else if (rootField) {
+        rootField.text += text
+      }
+    },
+
+    onCloseTag() {
+      if (featureStack.length > 0) {
+        const feature = featureStack.pop()!
+        if (featureStack.length === 0) {
+          handleFeature(feature)
+          depth--
+        }
+        return
+      }
+
+      if (rootField && depth === 2) {
+        const value = rootField.text.trim() || undefined
+        if (rootField.name === "name") {
+          document.name = value
+        } else {
+          document.description = value
+        }
+        rootField = null
+      }
+
+      depth--
+    },
+
+    onError(message, position) {
+      diagnostics.push({ severity: "error", message: `Invalid XML: ${message}`, ...position })
+    },
+  }
+
+  const xmlParser = new XmlStreamParser(handler)
+
+  return {
+    write(chunk) {
+      xmlParser.write(chunk)
+    },
+
+    end() {
+      xmlParser.close()
+
+      if (!hasGpxRoot) {
+        diagnostics.push({ severity: "warning", message: "Missing <gpx> root element" })
+      }
+
+      if (elements.length === 0) {
+        diagnostics.push({ severity: "warning", message: "No waypoints, routes or tracks found in the file" })
+      }
+
+      return {
+        name: document.name,
+        description: document.description,
+        folders: [],
+        elements,
+        networkLinks: [],
+        timeExtent: getTimeExtent(elements),
+        diagnostics,
+      }
+    },
+
+    getPlacemarkCount() {
+      return featureCount
+    },
+  }
+}
+
+// Parse a wpt into a Point, with its time as a TimeStamp
+function parseWaypoint(waypoint: XmlElement, index: number, diagnostics: ParseDiagnostic[]): KmlElement | null {
+  const point = parsePoint(waypoint, diagnostics)
+  if (!point) {
+    diagnostics.push({
+      severity: "warning",
+      message: `Waypoint ${index + 1} has no valid coordinates, skipped`,
+      ...waypoint.position,
+    })
+    return null
+  }
+
+  return createElement(waypoint, { type: "Point", coordinates: point.coordinate as unknown as number[][] }, {
+    time: point.time !== undefined ? { begin: point.time, end: point.time } : undefined,
+  })
+}
+
+// Parse a rte into a LineString
+function parseRoute(route: XmlElement, index: number, diagnostics: ParseDiagnostic[]): KmlElement | null {
+  const points = parsePoints(route, "rtept", diagnostics)
+  if (points.length === 0) {
+    diagnostics.push({
+      severity: "warning",
+      message: `Route ${index + 1} has no valid points, skipped`,
+      ...route.position,
+    })
+    return null
+  }
+
+  return createElement(route, { type: "LineString", coordinates: points.map((point) => point.coordinate) })
+}
+
+// Parse a trk, keeping each trkseg as a separate segment like a gx:MultiTrack
+function parseTrack(track: XmlElement, index: number, diagnostics: ParseDiagnostic[]): KmlElement | null {
+  const segments = track.children
+    .filter((child) => child.name === "trkseg")
+    .map((segment) => parsePoints(segment, "trkpt", diagnostics))
+    .filter((points) => points.length > 0)
+
+  if (segments.length === 0) {
+    diagnostics.push({
+      severity: "warning",
+      message: `Track ${index + 1} has no valid points, skipped`,
+      ...track.position,
+    })
+    return null
+  }
+
+  const points = segments.flat()
+
+  // Without a time for every point the track can still be drawn as lines
+  if (points.some((point) => point.time === undefined)) {
+    diagnostics.push({
+      severity: "info",
+      message: `Track ${index + 1} has missing or invalid <time> values, shown as a line without playback`,
+      ...track.position,
+    })
+
+    const lines: KmlGeometry[] = segments.map((segment) => ({
+      type: "LineString",
+      coordinates: segment.map((point) => point.coordinate),
+    }))
+    return createElement(
+      track,
+      lines.length === 1 ? lines[0] : { type: "MultiGeometry", coordinates: [], geometries: lines },
+    )
+  }
+
+  const toTrack = (segmentPoints: GpxPoint[]): KmlGeometry => ({
+    type: "Track",
+    coordinates: segmentPoints.map((point) => point.coordinate),
+    timestamps: segmentPoints.map((point) => point.time!),
+  })
+
+  const geometry = toTrack(points)
+  if (segments.length > 1) {
+    geometry.geometries = segments.map(toTrack)
+  }
+
+  const timestamps = geometry.timestamps!
+  return createElement(track, geometry, {
+    time: {
+      begin: timestamps.reduce((min, time) => Math.min(min, time), Infinity),
+      end: timestamps.reduce((max, time) => Math.max(max, time), -Infinity),
+    },
+  })
+}
+
+function createElement(feature: XmlElement, geometry: KmlGeometry, fields: { time?: KmlTimeSpan } = {}): KmlElement {
+  const extendedData: Record<string, string> = {}
+  EXTRA_FIELDS.forEach((field) => {
+    const value = getChildText(feature, field)
+    if (value) extendedData[field] = value
+  })
+
+  // GPX has no ids: waypoints, routes and tracks are identified by their kind, name and points
+  const name = getChildText(feature, "name")
+  return {
+    id: createContentId(feature.name, [name, geometry]),
+    type: geometry.type,
+    name,
+    description: getChildText(feature, "desc"),
+    coordinates: geometry.coordinates,
+    geometries: geometry.geometries,
+    timestamps: geometry.timestamps,
+    time: fields.time,
+    extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
+    metadata: calculateGeometryMetadata(geometry),
+  }
+}
+
+function parsePoints(parent: XmlElement, tagName: string, diagnostics: ParseDiagnostic[]): GpxPoint[] {
+  return parent.children
+    .filter((child) => child.name === tagName)
+    .map((child) => parsePoint(child, diagnostics))
+    .filter((point): point is GpxPoint => point !== null)
+}
+
+// Parse the lat/lon attributes, <ele> and <time> of a point
+// Invalid points are reported and skipped rather than replaced, so nothing is drawn at a made-up position
+function parsePoint(point: XmlElement, diagnostics: ParseDiagnostic[]): GpxPoint | null {
+  const lat = Number.parseFloat(point.attributes.lat)
+  const lon = Number.parseFloat(point.attributes.lon)
+  const ele = Number.parseFloat(getChildText(point, "ele") || "")
+
+  if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    diagnostics.push({
+      severity: "warning",
+      message: `Invalid coordinate lat="${point.attributes.lat ?? ""}" lon="${point.attributes.lon ?? ""}" skipped`,
+      ...point.position,
+    })
+    return null
+  }
+
+  return {
+    coordinate: [lon, lat, isNaN(ele) ? 0 : ele],
+    time: parseKmlTime(getChildText(point, "time")),
+  }
+}
@@ -0,0 +1,104 @@
+import { escapeXml } from "./kml-writer"
+import type { KmlElement, KmlGeometry } from "./types"
+
+// Waypoint fields read back from extendedData, in GPX 1.1 schema order
+const WAYPOINT_FIELDS = ["cmt", "desc", "src", "sym", "type"]
+
+// Serialize elements to a GPX 1.1 document for GPS devices
+// Points become waypoints; LineStrings and Tracks become tracks, with times when the element is a Track.
+// MultiGeometry parts are written the same way. Polygons and GroundOverlays have no GPX equivalent and are left out.
+export function serializeGpx(elements: KmlElement[], name?: string): string {
+  const waypoints: string[] = []
+  const tracks: string[] = []
+
+  elements.forEach((element) => {
+    const points: number[][] = []
+    const segments: { coordinates: number[][]; timestamps?: number[] }[] = []
+    collectGeometry(element as KmlGeometry, points, segments)
+
+    points.forEach((coordinate) => waypoints.push(formatWaypoint(element, coordinate)))
+    if (segments.length > 0) tracks.push(formatTrack(element, segments))
+  })
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="KML Viewer" xmlns="http://www.topografix.com/GPX/1/1">',
+  ]
+  if (name) {
+    lines.push("  <metadata>", `    <name>${escapeXml(name)}</name>`, "  </metadata>")
+  }
+  // The schema requires waypoints before tracks
+  lines.push(...waypoints, ...tracks, "</gpx>")
+  return lines.join("\n")
+}
+
+// Split a geometry into waypoint coordinates and track segments
+function collectGeometry(
+  geometry: KmlGeometry,
+  points: number[][],
+  segments: { coordinates: number[][]; timestamps?: number[] }[],
+) {
+  switch (geometry.type) {
+    case "Point":
+      points.push(geometry.coordinates as unknown as number[])
+      break
+
+    case "LineString":
+      segments.push({ coordinates: geometry.coordinates })
+      break
+
+    case "Track":
+      // gx:MultiTrack segments become trksegs
+      ;(geometry.geometries || [geometry]).forEach((segment) =>
+        segments.push({ coordinates: segment.coordinates, timestamps: segment.timestamps }),
+      )
+      break
+
+    case "MultiGeometry":
+      geometry.geometries?.forEach((child) => collectGeometry(child, points, segments))
+      break
+  }
+}
+
+function formatWaypoint(element: KmlElement, coordinate: number[]): string {
+  const lines = [`  <wpt ${formatLatLon(coordinate)}>`]
+  if (coordinate[2]) lines.push(`    <ele>${coordinate[2]}</ele>`)
+  if (element.type === "Point" && element.time?.begin !== undefined) {
+    lines.push(`    <time>${new Date(element.time.begin).toISOString()}</time>`)
+  }
+  if (element.name) lines.push(`    <name>${escapeXml(element.name)}</name>`)
+
+  WAYPOINT_FIELDS.forEach((field) => {
+    const value = field === "desc" ? element.description : element.extendedData?.[field]
+    if (value) lines.push(`    <${field}>${escapeXml(value)}</${field}>`)
+  })
+
+  lines.push("  </wpt>")
+  return lines.join("\n")
+}
+
+function formatTrack(element: KmlElement, segments: { coordinates: number[][]; timestamps?: number[] }[]): string {
+  const lines = ["  <trk>"]
+  if (element.name) lines.push(`    <name>${escapeXml(element.name)}</name>`)
+  if (element.description) lines.push(`    <desc>${escapeXml(element.description)}</desc>`)
+
+  segments.forEach(({ coordinates, timestamps }) => {
+    lines.push("    <trkseg>")
+    coordinates.forEach((coordinate, index) => {
+      const time = timestamps?.[index]
+      const children = [
+        coordinate[2] ? `<ele>${coordinate[2]}</ele>` : "",
+        time !== undefined && !isNaN(time) ? `<time>${new Date(time).toISOString()}</time>` : "",
+      ].join("")
+      lines.push(`      <trkpt ${formatLatLon(coordinate)}${children ? `>${children}</trkpt>` : "/>"}`)
+    })
+    lines.push("    </trkseg>")
+  })
+
+  lines.push("  </trk>")
+  return lines.join("\n")
+}
+
+function formatLatLon([lng, lat]: number[]): string {
+  return `lat="${lat}" lon="${lng}"`
+}
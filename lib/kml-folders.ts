@@ -0,0 +1,44 @@
+import type { KmlData, KmlElement, KmlFolder } from "./types"
+
+// Flatten a folder tree into a list (parents before children)
+export function flattenFolders(folders: KmlFolder[]): KmlFolder[] {
+  return folders.flatMap((folder) => [folder, ...flattenFolders(folder.children)])
+}
+
+// Folders whose <visibility> is 0 in the source file
+export function getInitiallyHiddenFolderIds(folders: KmlFolder[]): Set<string> {
+  return new Set(
+    flattenFolders(folders)
+      .filter((folder) => !folder.visibility)
+      .map((folder) => folder.id),
+  )
+}
+
+// Check whether a folder or any of its ancestors is hidden
+export function isFolderHidden(
+  folderId: string | undefined,
+  foldersById: Map<string, KmlFolder>,
+  hiddenFolderIds: Set<string>,
+): boolean {
+  let currentId = folderId
+  while (currentId) {
+    if (hiddenFolderIds.has(currentId)) return true
+    currentId = foldersById.get(currentId)?.parentId
+  }
+  return false
+}
+
+// Ids of the elements hidden by their folder (or an ancestor folder) being toggled off
+export function getHiddenElementIds(kmlData: KmlData, hiddenFolderIds: Set<string>): Set<string> {
+  const hidden = new Set<string>()
+  if (hiddenFolderIds.size === 0) return hidden
+
+  const foldersById = new Map(flattenFolders(kmlData.folders).map((folder) => [folder.id, folder]))
+  kmlData.elements.forEach((element: KmlElement) => {
+    if (isFolderHidden(element.folderId, foldersById, hiddenFolderIds)) {
+      hidden.add(element.id)
+    }
+  })
+
+  return hidden
+}
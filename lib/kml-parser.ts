@@ -1,542 +1,831 @@
-import { v4 as uuidv4 } from "uuid"
-import type { KmlData, KmlElement, KmlStyle } from "./types"
-
-// Common KML namespaces that might be missing in some files
-const KML_NAMESPACES = {
-  xmlns: "http://www.opengis.net/kml/2.2",
-  "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
-  "xmlns:gx": "http://www.google.com/kml/ext/2.2",
-  "xmlns:atom": "http://www.w3.org/2005/Atom",
-  "xmlns:kml": "http://www.opengis.net/kml/2.2",
+import type {
+  KmlData,
+  KmlElement,
+  KmlFolder,
+  KmlGeometry,
+  KmlGroundOverlay,
+  KmlHotSpot,
+  KmlNetworkLink,
+  KmlStyle,
+  KmlTimeSpan,
+  ParseDiagnostic,
+  ParseProgress,
+} from "./types"
+import { createContentId, createUniqueIds } from "./element-ids"
+import { calculateGeometryMetadata } from "./geo"
+import { getErrorMessage, type DiagnosticLocation } from "./parse-diagnostics"
+import { getTimeExtent, parseKmlTime } from "./time-filter"
+import { isAbsoluteUrl, joinArchivePath } from "./kml-resources"
+import {
+  findDescendant,
+  getChild,
+  getChildText,
+  getTextContent,
+  XmlStreamParser,
+  type XmlElement,
+  type XmlStreamHandler,
+} from "./xml-stream-parser"
+
+// Geometry elements that can appear directly inside a Placemark or MultiGeometry
+const GEOMETRY_TAGS = ["Point", "LineString", "LinearRing", "Polygon", "MultiGeometry", "Track", "MultiTrack"]
+
+// Elements whose whole subtree is collected and converted once they are closed
+const FEATURE_TAGS = ["Placemark", "GroundOverlay", "NetworkLink", "Style", "StyleMap"]
+
+// Containers become folders, except for the root Document
+const CONTAINER_TAGS = ["Document", "Folder"]
+
+// Direct children of a container that describe it
+const CONTAINER_FIELDS = ["name", "description", "visibility", "open"]
+
+// Minimum time between two progress reports
+const PROGRESS_INTERVAL = 100
+
+// Options for parsing a KML file
+export interface ParseKmlOptions {
+  basePath?: string // Archive directory of the KML file inside a KMZ, used to resolve relative hrefs
+  onProgress?: (progress: ParseProgress) => void // Only called by parseKmlStream
+}
+
+// Incremental KML parser: the document is fed in chunks and only one feature is kept as a tree at a time
+export interface KmlStreamParser {
+  write(chunk: string): void
+  end(): KmlData
+  getPlacemarkCount(): number
 }
 
 // Parse KML string to KmlData object
-export async function parseKml(kmlString: string): Promise<KmlData> {
-  try {
-    // Check if the input is valid
-    if (!kmlString || typeof kmlString !== "string") {
-      throw new Error("Invalid KML content: Empty or not a string")
-    }
+// Problems that still allow the file to be shown are returned in `diagnostics`, fatal ones are thrown
+export async function parseKml(kmlString: string, options: ParseKmlOptions = {}): Promise<KmlData> {
+  // Check if the input is valid
+  if (!kmlString || typeof kmlString !== "string") {
+    throw new Error("Invalid KML content: Empty or not a string")
+  }
+
+  const parser = createKmlStreamParser(options)
+  parser.write(kmlString)
+  return parser.end()
+}
 
-    // Pre-process the KML content to fix common namespace issues
-    const processedKmlString = preprocessKml(kmlString)
+// Parse a UTF-8 encoded KML stream, reporting progress as the bytes are read
+export async function parseKmlStream(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  options: ParseKmlOptions = {},
+): Promise<KmlData> {
+  return parseTextStream(stream, totalBytes, createKmlStreamParser(options), "KML", options.onProgress)
+}
 
-    // Parse XML
-    const parser = new DOMParser()
-    const xmlDoc = parser.parseFromString(processedKmlString, "text/xml")
+// Feed a UTF-8 encoded stream to an incremental parser (KML or another XML format producing KmlData)
+export async function parseTextStream(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  parser: KmlStreamParser,
+  formatName: string,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<KmlData> {
+  const decoder = new TextDecoder()
+  const reader = stream.getReader()
+  let bytesRead = 0
+  let lastProgressTime = 0
+
+  const reportProgress = () => {
+    onProgress?.({ bytesRead, totalBytes, placemarks: parser.getPlacemarkCount() })
+    lastProgressTime = Date.now()
+  }
 
-    // Check for parsing errors
-    const parserError = xmlDoc.querySelector("parsererror")
-    if (parserError) {
-      console.error("XML parsing error:", parserError.textContent)
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
 
-      // Try a more lenient approach - parse as HTML and extract the KML content
-      console.log("Attempting fallback parsing method...")
-      return fallbackParse(kmlString)
-    }
+    bytesRead += value.length
+    parser.write(decoder.decode(value, { stream: true }))
 
-    // Verify this is a KML document
-    const kmlElement = xmlDoc.querySelector("kml")
-    if (!kmlElement) {
-      console.warn("Missing <kml> root element, attempting to continue anyway")
+    if (Date.now() - lastProgressTime >= PROGRESS_INTERVAL) {
+      reportProgress()
     }
+  }
 
-    // Extract document info
-    const kmlDoc = xmlDoc.querySelector("kml Document") || xmlDoc.querySelector("Document")
-    const name = kmlDoc?.querySelector("name")?.textContent || undefined
-    const description = kmlDoc?.querySelector("description")?.textContent || undefined
+  parser.write(decoder.decode())
+  const kmlData = parser.end()
+  reportProgress()
 
-    // Extract styles
-    const styles = parseStyles(xmlDoc)
+  if (bytesRead === 0) {
+    throw new Error(`Invalid ${formatName} content: Empty file`)
+  }
 
-    // Extract placemarks
-    const elements = parsePlacemarks(xmlDoc, styles)
+  return kmlData
+}
 
-    // If no elements were found, warn but don't fail
-    if (elements.length === 0) {
-      console.warn("No KML elements found in the file")
-    }
+export function createKmlStreamParser(options: ParseKmlOptions = {}): KmlStreamParser {
+  const basePath = options.basePath ?? ""
+  const diagnostics: ParseDiagnostic[] = []
 
-    return {
-      name,
-      description,
-      elements,
+  const styles = new Map<string, KmlStyle>()
+  const styleMaps = new Map<string, string>() // StyleMap id -> id of its normal style
+  const elementStyleIds = new Map<KmlElement, string>() // Resolved at the end, styles may be defined after use
+
+  const document: { name?: string; description?: string } = {}
+  const folders: KmlFolder[] = []
+  const foldersById = new Map<string, KmlFolder>()
+  const elements: KmlElement[] = []
+  const networkLinks: KmlNetworkLink[] = []
+  const uniqueFolderId = createUniqueIds()
+  const uniqueElementId = createUniqueIds()
+  const uniqueNetworkLinkId = createUniqueIds()
+
+  let hasKmlRoot = false
+  let hasRootDocument = false
+  let placemarkCount = 0
+  let groundOverlayCount = 0
+
+  // Nesting depth of the open elements outside features
+  let depth = 0
+  // Open Document and Folder elements, the root Document has no folder
+  const containers: { folder?: KmlFolder; depth: number }[] = []
+  // Name, description, visibility or open element of the innermost container being read
+  let containerField: { name: string; text: string; depth: number } | null = null
+  // Subtree of the feature being read
+  const featureStack: XmlElement[] = []
+
+  const getCurrentFolderId = (): string | undefined => {
+    for (let i = containers.length - 1; i >= 0; i--) {
+      const folder = containers[i].folder
+      if (folder) return folder.id
     }
-  } catch (error) {
-    console.error("Error parsing KML:", error)
-    throw error instanceof Error ? error : new Error("Failed to parse KML file")
+    return undefined
   }
-}
 
-// Preprocess KML string to fix common namespace issues
-function preprocessKml(kmlString: string): string {
-  try {
-    // Check if the kml root element is present
-    if (!kmlString.includes("<kml")) {
-      console.warn("No <kml> root element found, wrapping content")
-      // Wrap the content in a kml element with proper namespaces
-      return `<kml xmlns="http://www.opengis.net/kml/2.2">${kmlString}</kml>`
+  const openContainer = (name: string, attributes: Record<string, string>) => {
+    if (name === "Document" && !hasRootDocument && containers.length === 0) {
+      hasRootDocument = true
+      containers.push({ depth })
+      return
     }
 
-    // Check if the kml element has the necessary namespaces
-    const kmlTagMatch = kmlString.match(/<kml[^>]*>/)
-    if (kmlTagMatch) {
-      const kmlTag = kmlTagMatch[0]
-      let updatedTag = kmlTag
+    const parentId = getCurrentFolderId()
+    const parent = parentId ? foldersById.get(parentId) : undefined
 
-      // Add missing namespaces
-      Object.entries(KML_NAMESPACES).forEach(([ns, url]) => {
-        if (!kmlTag.includes(ns)) {
-          updatedTag = updatedTag.replace(">", ` ${ns}="${url}">`)
-        }
-      })
+    // The name is read after the folder is opened, so folders without an id are identified by their position
+    const position = (parent ? parent.children : folders).length
+    const id = uniqueFolderId(attributes.id || createContentId("folder", [parentId, position]))
+    const folder: KmlFolder = { id, visibility: true, open: false, parentId, children: [] }
+    foldersById.set(folder.id, folder)
 
-      // Replace the original kml tag with the updated one
-      if (updatedTag !== kmlTag) {
-        console.log("Adding missing namespaces to KML root element")
-        return kmlString.replace(kmlTag, updatedTag)
-      }
+    if (parent) {
+      parent.children.push(folder)
+    } else {
+      folders.push(folder)
     }
 
-    return kmlString
-  } catch (error) {
-    console.warn("Error preprocessing KML:", error)
-    return kmlString // Return original string if preprocessing fails
+    containers.push({ folder, depth })
   }
-}
-
-// Fallback parsing method for problematic KML files
-async function fallbackParse(kmlString: string): Promise<KmlData> {
-  console.log("Using fallback parsing method")
 
-  // Create a basic KML data structure
-  const kmlData: KmlData = {
-    elements: [],
+  const applyContainerField = (field: { name: string; text: string }) => {
+    const folder = containers[containers.length - 1]?.folder
+    const value = field.text.trim() || undefined
+
+    switch (field.name) {
+      case "name":
+      case "description":
+        if (folder) {
+          folder[field.name] = value
+        } else {
+          document[field.name] = value
+        }
+        break
+      case "visibility":
+        if (folder) folder.visibility = value !== "0"
+        break
+      case "open":
+        if (folder) folder.open = value === "1"
+        break
+    }
   }
 
-  try {
-    // Use regular expressions to extract placemarks
-    const placemarkRegex = /<Placemark[^>]*>([\s\S]*?)<\/Placemark>/g
-    const nameRegex = /<name[^>]*>([\s\S]*?)<\/name>/
-    const descRegex = /<description[^>]*>([\s\S]*?)<\/description>/
-    const pointRegex = /<Point[^>]*>([\s\S]*?)<\/Point>/
-    const lineRegex = /<LineString[^>]*>([\s\S]*?)<\/LineString>/
-    const polygonRegex = /<Polygon[^>]*>([\s\S]*?)<\/Polygon>/
-    const coordsRegex = /<coordinates[^>]*>([\s\S]*?)<\/coordinates>/
-
-    let match
-    while ((match = placemarkRegex.exec(kmlString)) !== null) {
-      const placemarkContent = match[1]
-
-      // Extract name
-      const nameMatch = nameRegex.exec(placemarkContent)
-      const name = nameMatch ? nameMatch[1].trim() : undefined
-
-      // Extract description
-      const descMatch = descRegex.exec(placemarkContent)
-      const description = descMatch ? descMatch[1].trim() : undefined
-
-      // Check for geometry types
-      const pointMatch = pointRegex.exec(placemarkContent)
-      const lineMatch = lineRegex.exec(placemarkContent)
-      const polygonMatch = polygonRegex.exec(placemarkContent)
-
-      let type: "Point" | "LineString" | "Polygon" | null = null
-      let geometryContent = ""
-
-      if (pointMatch) {
-        type = "Point"
-        geometryContent = pointMatch[1]
-      } else if (lineMatch) {
-        type = "LineString"
-        geometryContent = lineMatch[1]
-      } else if (polygonMatch) {
-        type = "Polygon"
-        geometryContent = polygonMatch[1]
-      }
+  // Convert a feature once its whole subtree has been read
+  const handleFeature = (feature: XmlElement) => {
+    const folderId = getCurrentFolderId()
+
+    try {
+      switch (feature.name) {
+        case "Placemark": {
+          const index = placemarkCount++
+          const result = parsePlacemark(feature, index, folderId, diagnostics, uniqueElementId)
+          if (result) {
+            elements.push(result.element)
+            if (result.styleId) elementStyleIds.set(result.element, result.styleId)
+          }
+          break
+        }
+
+        case "GroundOverlay": {
+          const element = parseGroundOverlay(
+            feature,
+            groundOverlayCount++,
+            folderId,
+            basePath,
+            diagnostics,
+            uniqueElementId,
+          )
+          if (element) elements.push(element)
+          break
+        }
 
-      if (type) {
-        // Extract coordinates
-        const coordsMatch = coordsRegex.exec(geometryContent)
-        if (coordsMatch) {
-          const coordsText = coordsMatch[1].trim()
-          const coordinates = parseCoordinatesText(coordsText, type)
-
-          if (coordinates.length > 0) {
-            kmlData.elements.push({
-              id: uuidv4(),
-              type,
-              name,
-              description,
-              coordinates: type === "Polygon" ? [coordinates] : coordinates,
-              style: {
-                color: "#3700ff",
-                fillColor: "#42eedc",
-                fillOpacity: 0.2,
-              },
-            })
+        case "NetworkLink": {
+          const networkLink = parseNetworkLink(feature, folderId, basePath, uniqueNetworkLinkId)
+          if (networkLink) networkLinks.push(networkLink)
+          break
+        }
+
+        case "Style":
+          if (feature.attributes.id) styles.set(feature.attributes.id, parseStyle(feature, basePath))
+          break
+
+        case "StyleMap": {
+          // Only the normal (not highlighted) style is used
+          const normalPair = feature.children.find(
+            (child) => child.name === "Pair" && getChildText(child, "key") === "normal",
+          )
+          const styleUrl = normalPair && getChildText(normalPair, "styleUrl")
+          if (feature.attributes.id && styleUrl?.startsWith("#")) {
+            styleMaps.set(feature.attributes.id, styleUrl.substring(1))
           }
+          break
         }
       }
-    }
-
-    console.log(`Fallback parsing extracted ${kmlData.elements.length} elements`)
-    return kmlData
-  } catch (error) {
-    console.error("Fallback parsing failed:", error)
-    return {
-      elements: [],
+    } catch (error) {
+      diagnostics.push({
+        severity: "error",
+        message: `Error parsing ${feature.name}: ${getErrorMessage(error)}`,
+        ...feature.position,
+      })
     }
   }
-}
 
-// Helper function for fallback parsing to parse coordinate strings
-function parseCoordinatesText(coordsText: string, type: "Point" | "LineString" | "Polygon"): number[][] {
-  try {
-    // Clean up the coordinates string
-    const cleanedString = coordsText
-      .trim()
-      .replace(/\s+/g, " ") // Normalize whitespace
-      .replace(/,\s+/g, ",") // Remove spaces after commas
-
-    // Split by whitespace and filter out empty strings
-    const coordStrings = cleanedString.split(/\s+/).filter(Boolean)
-
-    return coordStrings.map((coordStr) => {
-      try {
-        const parts = coordStr.split(",")
-        const lng = Number.parseFloat(parts[0])
-        const lat = Number.parseFloat(parts[1])
-        const alt = parts.length > 2 ? Number.parseFloat(parts[2]) : 0
-
-        // Check if valid coordinates
-        if (isNaN(lng) || isNaN(lat)) {
-          console.warn(`Invalid coordinate: ${coordStr}`)
-          return [0, 0, 0]
+  const handler: XmlStreamHandler = {
+    onOpenTag(name, attributes, position) {
+      if (featureStack.length > 0) {
+        const element: XmlElement = { name, attributes, children: [], text: "", position }
+        featureStack[featureStack.length - 1].children.push(element)
+        featureStack.push(element)
+        return
+      }
+
+      depth++
+
+      if (FEATURE_TAGS.includes(name)) {
+        featureStack.push({ name, attributes, children: [], text: "", position })
+      } else if (CONTAINER_TAGS.includes(name)) {
+        openContainer(name, attributes)
+      } else if (name === "kml") {
+        hasKmlRoot = true
+      } else {
+        const container = containers[containers.length - 1]
+        if (container && depth === container.depth + 1 && CONTAINER_FIELDS.includes(name)) {
+          containerField = { name, text: "", depth }
+        }
+      }
+    },
+
+    onText(text) {
+      if (featureStack.length > 0) {
+        featureStack[featureStack.length - 1].text += text
+      } else if (containerField) {
+        containerField.text += text
+      }
+    },
+
+    onCloseTag() {
+      if (featureStack.length > 0) {
+        const feature = featureStack.pop()!
+        if (featureStack.length === 0) {
+          handleFeature(feature)
+          depth--
         }
+        return
+      }
 
-        return [lng, lat, alt]
-      } catch (error) {
-        console.warn(`Error parsing coordinate: ${coordStr}`, error)
-        return [0, 0, 0]
+      if (containerField && containerField.depth === depth) {
+        applyContainerField(containerField)
+        containerField = null
       }
-    })
-  } catch (error) {
-    console.error("Error parsing coordinates text:", error)
-    return []
+
+      if (containers.length > 0 && containers[containers.length - 1].depth === depth) {
+        containers.pop()
+      }
+
+      depth--
+    },
+
+    onError(message, position) {
+      diagnostics.push({ severity: "error", message: `Invalid XML: ${message}`, ...position })
+    },
   }
-}
 
-// Parse KML styles
-function parseStyles(xmlDoc: Document): Map<string, KmlStyle> {
-  const styles = new Map<string, KmlStyle>()
+  const xmlParser = new XmlStreamParser(handler)
 
-  try {
-    // Process Style elements
-    const styleElements = xmlDoc.querySelectorAll("Style")
-    styleElements.forEach((styleEl) => {
-      const id = styleEl.getAttribute("id")
-      if (!id) return
+  return {
+    write(chunk) {
+      xmlParser.write(chunk)
+    },
 
-      const style: KmlStyle = {}
+    end() {
+      xmlParser.close()
 
-      // Line style
-      const lineStyle = styleEl.querySelector("LineStyle")
-      if (lineStyle) {
-        const color = lineStyle.querySelector("color")?.textContent
-        const width = lineStyle.querySelector("width")?.textContent
+      // Resolve styleUrls now that every Style and StyleMap has been read
+      elementStyleIds.forEach((styleId, element) => {
+        element.style = styles.get(styleId) ?? styles.get(styleMaps.get(styleId) ?? "")
+      })
 
-        if (color) style.color = kmlColorToHex(color)
-        if (width) style.width = Number.parseFloat(width)
+      if (!hasKmlRoot) {
+        diagnostics.push({ severity: "warning", message: "Missing <kml> root element" })
       }
 
-      // Polygon style
-      const polyStyle = styleEl.querySelector("PolyStyle")
-      if (polyStyle) {
-        const color = polyStyle.querySelector("color")?.textContent
-        const fill = polyStyle.querySelector("fill")?.textContent
-        const outline = polyStyle.querySelector("outline")?.textContent
+      // If no elements were found, warn but don't fail
+      if (elements.length === 0) {
+        diagnostics.push({ severity: "warning", message: "No KML elements found in the file" })
+      }
 
-        if (color) style.fillColor = kmlColorToHex(color)
-        if (fill) style.fillOpacity = fill === "1" ? 0.5 : 0
-        if (outline) style.strokeOpacity = outline === "1" ? 1 : 0
+      return {
+        name: document.name,
+        description: document.description,
+        folders,
+        elements,
+        networkLinks,
+        timeExtent: getTimeExtent(elements),
+        diagnostics,
       }
+    },
+
+    getPlacemarkCount() {
+      return placemarkCount
+    },
+  }
+}
 
-      // Icon style
-      const iconStyle = styleEl.querySelector("IconStyle")
-      if (iconStyle) {
-        const scale = iconStyle.querySelector("scale")?.textContent
-        const icon = iconStyle.querySelector("Icon href")?.textContent
+// Parse a Style element
+function parseStyle(styleEl: XmlElement, basePath: string): KmlStyle {
+  const style: KmlStyle = {}
+
+  // Line style
+  const lineStyle = getChild(styleEl, "LineStyle")
+  if (lineStyle) {
+    const color = getChildText(lineStyle, "color")
+    const width = getChildText(lineStyle, "width")
+
+    if (color) {
+      style.color = kmlColorToHex(color)
+      // Opaque lines keep the default opacity
+      const opacity = getKmlColorAlpha(color)
+      if (opacity < 1) style.opacity = opacity
+    }
+    if (width) style.width = Number.parseFloat(width)
+  }
 
-        if (scale) style.iconScale = Number.parseFloat(scale)
-        if (icon) style.iconUrl = icon
+  // Polygon style
+  const polyStyle = getChild(styleEl, "PolyStyle")
+  if (polyStyle) {
+    const color = getChildText(polyStyle, "color")
+    const fill = getChildText(polyStyle, "fill")
+    const outline = getChildText(polyStyle, "outline")
+
+    if (color) style.fillColor = kmlColorToHex(color)
+    if (fill) style.fillOpacity = fill === "1" ? 0.5 : 0
+    if (outline) style.strokeOpacity = outline === "1" ? 1 : 0
+  }
+
+  // Icon style
+  const iconStyle = getChild(styleEl, "IconStyle")
+  if (iconStyle) {
+    const scale = getChildText(iconStyle, "scale")
+    const icon = findDescendant(iconStyle, "Icon", "href")
+    const color = getChildText(iconStyle, "color")
+    const heading = getChildText(iconStyle, "heading")
+    const hotSpot = getChild(iconStyle, "hotSpot")
+
+    if (scale) style.iconScale = Number.parseFloat(scale)
+    if (icon) style.iconUrl = joinArchivePath(basePath, getTextContent(icon))
+    if (color) style.iconColor = kmlColorToHex(color)
+    if (heading) style.iconHeading = Number.parseFloat(heading) || 0
+    if (hotSpot) {
+      style.iconHotSpot = {
+        x: Number.parseFloat(hotSpot.attributes.x || "0.5"),
+        y: Number.parseFloat(hotSpot.attributes.y || "0.5"),
+        xunits: parseHotSpotUnits(hotSpot.attributes.xunits),
+        yunits: parseHotSpotUnits(hotSpot.attributes.yunits),
       }
+    }
+  }
 
-      styles.set(id, style)
-    })
+  return style
+}
 
-    // Process StyleMap elements
-    const styleMaps = xmlDoc.querySelectorAll("StyleMap")
-    styleMaps.forEach((styleMap) => {
-      const id = styleMap.getAttribute("id")
-      if (!id) return
+// IconStyle hotSpot units, defaulting to fraction
+function parseHotSpotUnits(units: string | undefined): KmlHotSpot["xunits"] {
+  return units === "pixels" || units === "insetPixels" ? units : "fraction"
+}
 
-      // Get normal style reference
-      const normalPair = Array.from(styleMap.querySelectorAll("Pair")).find((pair) => {
-        const key = pair.querySelector("key")
-        return key && key.textContent === "normal"
-      })
+// Parse a Placemark, returning the id of its shared style to be resolved once all styles are known
+function parsePlacemark(
+  placemark: XmlElement,
+  index: number,
+  folderId: string | undefined,
+  diagnostics: ParseDiagnostic[],
+  uniqueId: (id: string) => string,
+): { element: KmlElement; styleId?: string } | null {
+  const location: DiagnosticLocation = { placemarkIndex: index, ...placemark.position }
+
+  // Process geometry
+  const geometryNode = placemark.children.find((el) => GEOMETRY_TAGS.includes(el.name))
+  if (!geometryNode) {
+    diagnostics.push({ severity: "info", message: "Placemark has no geometry, skipped", ...location })
+    return null
+  }
 
-      const styleUrl = normalPair?.querySelector("styleUrl")?.textContent
+  // Collected separately so they can point at the element once it is known to be kept
+  const placemarkDiagnostics: ParseDiagnostic[] = []
+  const geometry = parseGeometry(geometryNode, placemarkDiagnostics, location)
+  if (!geometry) {
+    diagnostics.push(...placemarkDiagnostics, {
+      severity: "warning",
+      message: `${geometryNode.name} has no valid coordinates, skipped`,
+      ...location,
+    })
+    return null
+  }
 
-      if (styleUrl && styleUrl.startsWith("#")) {
-        const referencedStyle = styles.get(styleUrl.substring(1))
-        if (referencedStyle) {
-          styles.set(id, referencedStyle)
-        }
+  const name = getChildText(placemark, "name")
+  // The id attribute when there is one, otherwise the folder, name and geometry
+  const id = uniqueId(placemark.attributes.id || createContentId("placemark", [folderId, name, geometry]))
+  diagnostics.push(...placemarkDiagnostics.map((diagnostic) => ({ ...diagnostic, elementId: id })))
+
+  // Get extended data
+  const extendedData: Record<string, string> = {}
+  getChild(placemark, "ExtendedData")
+    ?.children.filter((dataEl) => dataEl.name === "Data")
+    .forEach((dataEl) => {
+      const dataName = dataEl.attributes.name
+      const dataValue = getChildText(dataEl, "value")
+      if (dataName && dataValue) {
+        extendedData[dataName] = dataValue
       }
     })
-  } catch (error) {
-    console.error("Error parsing styles:", error)
+
+  const styleUrl = getChildText(placemark, "styleUrl")
+
+  return {
+    element: {
+      id,
+      type: geometry.type,
+      name,
+      description: getChildText(placemark, "description"),
+      folderId,
+      coordinates: geometry.coordinates,
+      geometries: geometry.geometries,
+      timestamps: geometry.timestamps,
+      time: parseTimePrimitive(placemark) ?? getTrackTime(geometry),
+      extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
+      metadata: calculateGeometryMetadata(geometry),
+    },
+    styleId: styleUrl?.startsWith("#") ? styleUrl.substring(1) : undefined,
   }
+}
+
+// Parse a GroundOverlay (an image draped over a LatLonBox or gx:LatLonQuad)
+function parseGroundOverlay(
+  groundOverlay: XmlElement,
+  index: number,
+  folderId: string | undefined,
+  basePath: string,
+  diagnostics: ParseDiagnostic[],
+  uniqueId: (id: string) => string,
+): KmlElement | null {
+  const hrefEl = findDescendant(groundOverlay, "Icon", "href")
+  const href = hrefEl && getTextContent(hrefEl).trim()
+  if (!href) {
+    diagnostics.push({
+      severity: "warning",
+      message: `GroundOverlay ${index + 1} has no image href, skipped`,
+      ...groundOverlay.position,
+    })
+    return null
+  }
+
+  const overlay: KmlGroundOverlay = { href: joinArchivePath(basePath, href) }
 
-  return styles
+  // LatLonBox (optionally rotated)
+  const latLonBox = getChild(groundOverlay, "LatLonBox")
+  if (latLonBox) {
+    const north = Number.parseFloat(getChildText(latLonBox, "north") || "")
+    const south = Number.parseFloat(getChildText(latLonBox, "south") || "")
+    const east = Number.parseFloat(getChildText(latLonBox, "east") || "")
+    const west = Number.parseFloat(getChildText(latLonBox, "west") || "")
+    const rotation = Number.parseFloat(getChildText(latLonBox, "rotation") || "0") || 0
+
+    if (![north, south, east, west].some(isNaN)) {
+      overlay.latLonBox = { north, south, east, west, rotation }
+    }
+  }
+
+  // gx:LatLonQuad (four arbitrary corners)
+  const latLonQuad = getChild(groundOverlay, "LatLonQuad")
+  if (latLonQuad) {
+    const corners = parseCoordinates(getChildText(latLonQuad, "coordinates"), diagnostics, groundOverlay.position)
+    if (corners.length === 4) {
+      overlay.latLonQuad = corners.map(([lng, lat]) => [lng, lat])
+    }
+  }
+
+  const corners = overlay.latLonQuad || (overlay.latLonBox && getLatLonBoxCorners(overlay.latLonBox))
+  if (!corners) {
+    diagnostics.push({
+      severity: "warning",
+      message: `GroundOverlay ${index + 1} has no valid LatLonBox or LatLonQuad, skipped`,
+      ...groundOverlay.position,
+    })
+    return null
+  }
+
+  // The alpha channel of <color> sets the overlay opacity
+  const color = getChildText(groundOverlay, "color")
+  if (color && color.length === 8) {
+    overlay.opacity = getKmlColorAlpha(color)
+  }
+
+  const name = getChildText(groundOverlay, "name")
+  return {
+    id: uniqueId(groundOverlay.attributes.id || createContentId("overlay", [folderId, name, overlay])),
+    type: "GroundOverlay",
+    name,
+    description: getChildText(groundOverlay, "description"),
+    folderId,
+    coordinates: corners,
+    time: parseTimePrimitive(groundOverlay),
+    overlay,
+  }
 }
 
-// Update the parsePlacemarks function to be more robust
-function parsePlacemarks(xmlDoc: Document, styles: Map<string, KmlStyle>): KmlElement[] {
-  const elements: KmlElement[] = []
+// Parse a NetworkLink; it starts unresolved and is followed by the KMZ parser
+function parseNetworkLink(
+  networkLink: XmlElement,
+  folderId: string | undefined,
+  basePath: string,
+  uniqueId: (id: string) => string,
+): KmlNetworkLink | null {
+  // <Url> is the KML 2.0 name of <Link>
+  const hrefEl = findDescendant(networkLink, "Link", "href") || findDescendant(networkLink, "Url", "href")
+  const href = hrefEl && getTextContent(hrefEl).trim()
+  if (!href) return null
+
+  const resolvedHref = joinArchivePath(basePath, href)
+  return {
+    id: uniqueId(networkLink.attributes.id || createContentId("link", [folderId, resolvedHref])),
+    name: getChildText(networkLink, "name"),
+    href: resolvedHref,
+    folderId,
+    status: isAbsoluteUrl(resolvedHref) ? "external" : "missing",
+  }
+}
 
-  try {
-    const placemarks = xmlDoc.querySelectorAll("Placemark")
-    console.log(`Found ${placemarks.length} placemarks in KML`)
+// Corners [lng, lat] of a LatLonBox rotated around its center, counter-clockwise from lower-left
+function getLatLonBoxCorners(box: NonNullable<KmlGroundOverlay["latLonBox"]>): number[][] {
+  const centerLng = (box.east + box.west) / 2
+  const centerLat = (box.north + box.south) / 2
+  const halfWidth = (box.east - box.west) / 2
+  const halfHeight = (box.north - box.south) / 2
+
+  const angle = (box.rotation * Math.PI) / 180
+  // Rotate in a locally scaled frame so the box keeps its shape away from the equator
+  const lngScale = Math.cos((centerLat * Math.PI) / 180) || 1
+
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([dx, dy]) => {
+    const x = dx * lngScale
+    const rotatedX = x * Math.cos(angle) - dy * Math.sin(angle)
+    const rotatedY = x * Math.sin(angle) + dy * Math.cos(angle)
+    return [centerLng + rotatedX / lngScale, centerLat + rotatedY]
+  })
+}
 
-    placemarks.forEach((placemark, index) => {
-      try {
-        const name = placemark.querySelector("name")?.textContent || undefined
-        const description = placemark.querySelector("description")?.textContent || undefined
+// Parse the TimeStamp or TimeSpan of a feature
+function parseTimePrimitive(feature: XmlElement): KmlTimeSpan | undefined {
+  const timeStamp = getChild(feature, "TimeStamp")
+  if (timeStamp) {
+    const when = parseKmlTime(getChildText(timeStamp, "when"))
+    return when !== undefined ? { begin: when, end: when } : undefined
+  }
 
-        // Get style
-        let style: KmlStyle | undefined
-        const styleUrl = placemark.querySelector("styleUrl")?.textContent
-        if (styleUrl && styleUrl.startsWith("#")) {
-          style = styles.get(styleUrl.substring(1))
-        }
+  const timeSpan = getChild(feature, "TimeSpan")
+  if (timeSpan) {
+    const begin = parseKmlTime(getChildText(timeSpan, "begin"))
+    const end = parseKmlTime(getChildText(timeSpan, "end"))
+    return begin !== undefined || end !== undefined ? { begin, end } : undefined
+  }
 
-        // Get extended data
-        const extendedData: Record<string, string> = {}
-        const dataElements = placemark.querySelectorAll("ExtendedData Data")
-        dataElements.forEach((dataEl) => {
-          const dataName = dataEl.getAttribute("name")
-          const dataValue = dataEl.querySelector("value")?.textContent
-          if (dataName && dataValue) {
-            extendedData[dataName] = dataValue
-          }
-        })
-
-        // Process geometry
-        // Point
-        const point = placemark.querySelector("Point")
-        if (point) {
-          const coordinates = parseCoordinates(point.querySelector("coordinates")?.textContent)
-          if (coordinates && coordinates.length > 0) {
-            elements.push({
-              id: uuidv4(),
-              type: "Point",
-              name,
-              description,
-              coordinates: coordinates[0],
-              style,
-              extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-            })
-          }
-          return
-        }
+  return undefined
+}
 
-        // LineString
-        const lineString = placemark.querySelector("LineString")
-        if (lineString) {
-          const coordinates = parseCoordinates(lineString.querySelector("coordinates")?.textContent)
-          if (coordinates && coordinates.length > 0) {
-            // Calculate length
-            let length = 0
-            for (let i = 1; i < coordinates.length; i++) {
-              length += calculateDistance(
-                coordinates[i - 1][1],
-                coordinates[i - 1][0],
-                coordinates[i][1],
-                coordinates[i][0],
-              )
-            }
-
-            elements.push({
-              id: uuidv4(),
-              type: "LineString",
-              name,
-              description,
-              coordinates,
-              style,
-              extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-              metadata: {
-                length,
-              },
-            })
-          }
-          return
-        }
+// Tracks without an explicit TimeSpan cover the time of their first and last points
+function getTrackTime(geometry: KmlGeometry): KmlTimeSpan | undefined {
+  if (geometry.type !== "Track" || !geometry.timestamps?.length) return undefined
+  return {
+    begin: geometry.timestamps.reduce((min, time) => Math.min(min, time), Infinity),
+    end: geometry.timestamps.reduce((max, time) => Math.max(max, time), -Infinity),
+  }
+}
 
-        // Polygon
-        const polygon = placemark.querySelector("Polygon")
-        if (polygon) {
-          const outerBoundary = polygon.querySelector("outerBoundaryIs LinearRing coordinates")?.textContent
-          const innerBoundaries = polygon.querySelectorAll("innerBoundaryIs LinearRing coordinates")
+// Parse a Point, LineString, LinearRing, Polygon or (possibly nested) MultiGeometry node
+function parseGeometry(
+  node: XmlElement,
+  diagnostics: ParseDiagnostic[],
+  location: DiagnosticLocation,
+): KmlGeometry | null {
+  switch (node.name) {
+    case "Point": {
+      const coordinates = parseCoordinates(getChildText(node, "coordinates"), diagnostics, location)
+      return coordinates.length > 0 ? { type: "Point", coordinates: coordinates[0] } : null
+    }
 
-          const rings: number[][][] = []
+    case "LineString":
+    case "LinearRing": {
+      const coordinates = parseCoordinates(getChildText(node, "coordinates"), diagnostics, location)
+      return coordinates.length > 0 ? { type: "LineString", coordinates } : null
+    }
 
-          // Add outer boundary
-          if (outerBoundary) {
-            const outerCoords = parseCoordinates(outerBoundary)
-            if (outerCoords && outerCoords.length > 0) {
-              rings.push(outerCoords)
-            }
-          }
+    case "Polygon": {
+      const outerBoundary = findDescendant(node, "outerBoundaryIs", "LinearRing", "coordinates")
+      const innerBoundaries = node.children
+        .filter((el) => el.name === "innerBoundaryIs")
+        .map((el) => findDescendant(el, "LinearRing", "coordinates"))
 
-          // Add inner boundaries (holes)
-          innerBoundaries.forEach((innerBoundary) => {
-            const innerCoords = parseCoordinates(innerBoundary.textContent)
-            if (innerCoords && innerCoords.length > 0) {
-              rings.push(innerCoords)
-            }
-          })
-
-          if (rings.length > 0) {
-            // Calculate area (approximate)
-            const area = calculatePolygonArea(rings[0])
-
-            elements.push({
-              id: uuidv4(),
-              type: "Polygon",
-              name,
-              description,
-              coordinates: rings,
-              style,
-              extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-              metadata: {
-                area,
-              },
-            })
-          }
-          return
-        }
+      const rings: number[][][] = []
 
-        // MultiGeometry (not fully implemented)
-        const multiGeometry = placemark.querySelector("MultiGeometry")
-        if (multiGeometry) {
-          // For simplicity, we'll just extract the first geometry in the MultiGeometry
-          // A complete implementation would create multiple elements or a special MultiGeometry type
-
-          const point = multiGeometry.querySelector("Point")
-          const lineString = multiGeometry.querySelector("LineString")
-          const polygon = multiGeometry.querySelector("Polygon")
-
-          if (point) {
-            const coordinates = parseCoordinates(point.querySelector("coordinates")?.textContent)
-            if (coordinates && coordinates.length > 0) {
-              elements.push({
-                id: uuidv4(),
-                type: "Point",
-                name: name ? `${name} (Multi)` : undefined,
-                description,
-                coordinates: coordinates[0],
-                style,
-                extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-              })
-            }
-          } else if (lineString) {
-            const coordinates = parseCoordinates(lineString.querySelector("coordinates")?.textContent)
-            if (coordinates && coordinates.length > 0) {
-              elements.push({
-                id: uuidv4(),
-                type: "LineString",
-                name: name ? `${name} (Multi)` : undefined,
-                description,
-                coordinates,
-                style,
-                extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-              })
-            }
-          } else if (polygon) {
-            const outerBoundary = polygon.querySelector("outerBoundaryIs LinearRing coordinates")?.textContent
-            if (outerBoundary) {
-              const coordinates = parseCoordinates(outerBoundary)
-              if (coordinates && coordinates.length > 0) {
-                elements.push({
-                  id: uuidv4(),
-                  type: "Polygon",
-                  name: name ? `${name} (Multi)` : undefined,
-                  description,
-                  coordinates: [coordinates],
-                  style,
-                  extendedData: Object.keys(extendedData).length > 0 ? extendedData : undefined,
-                })
-              }
-            }
-          }
+      // Add outer boundary
+      const outerCoords = parseCoordinates(outerBoundary && getTextContent(outerBoundary), diagnostics, location)
+      if (outerCoords.length === 0) return null
+      rings.push(outerCoords)
+
+      // Add inner boundaries (holes)
+      innerBoundaries.forEach((innerBoundary) => {
+        const innerCoords = parseCoordinates(innerBoundary && getTextContent(innerBoundary), diagnostics, location)
+        if (innerCoords.length > 0) {
+          rings.push(innerCoords)
         }
-      } catch (error) {
-        console.error(`Error parsing placemark ${index}:`, error)
-        // Continue with other placemarks
+      })
+
+      return { type: "Polygon", coordinates: rings }
+    }
+
+    case "MultiGeometry": {
+      const geometries = node.children
+        .filter((el) => GEOMETRY_TAGS.includes(el.name))
+        .map((child) => parseGeometry(child, diagnostics, location))
+        .filter((geometry): geometry is KmlGeometry => geometry !== null)
+
+      return geometries.length > 0 ? { type: "MultiGeometry", coordinates: [], geometries } : null
+    }
+
+    case "Track":
+      return parseTrack(node, diagnostics, location)
+
+    case "MultiTrack": {
+      // All segments are kept for rendering, segments without times are drawn as lines
+      const segments = node.children
+        .filter((el) => el.name === "Track")
+        .map((child) => parseTrack(child, diagnostics, location))
+        .filter((segment): segment is KmlGeometry => segment !== null)
+
+      // Only the timed segments are played back (see buildTrackProfile), the flattened ones give the track's times
+      const tracks = segments.filter((segment) => segment.type === "Track")
+      if (tracks.length === 0) {
+        return segments.length > 0 ? { type: "MultiGeometry", coordinates: [], geometries: segments } : null
       }
+
+      return {
+        type: "Track",
+        coordinates: tracks.flatMap((track) => track.coordinates),
+        timestamps: tracks.flatMap((track) => track.timestamps || []),
+        geometries: segments,
+      }
+    }
+
+    default:
+      return null
+  }
+}
+
+// Parse a gx:Track from its paired <when> and <gx:coord> children
+function parseTrack(
+  node: XmlElement,
+  diagnostics: ParseDiagnostic[],
+  location: DiagnosticLocation,
+): KmlGeometry | null {
+  const whens = node.children.filter((el) => el.name === "when")
+  const coords = node.children.filter((el) => el.name === "coord")
+
+  const coordinates: number[][] = []
+  const timestamps: number[] = []
+  const invalid: string[] = []
+
+  coords.forEach((coord, index) => {
+    // gx:coord separates values with spaces instead of commas
+    const coordText = getTextContent(coord).trim()
+    const [lng, lat, alt = 0] = coordText.split(/\s+/).map(Number.parseFloat)
+    const time = Date.parse(whens[index] ? getTextContent(whens[index]).trim() : "")
+
+    if (isNaN(lng) || isNaN(lat)) {
+      invalid.push(coordText)
+      return
+    }
+
+    coordinates.push([lng, lat, isNaN(alt) ? 0 : alt])
+    timestamps.push(time)
+  })
+
+  reportInvalidCoordinates(invalid, diagnostics, location)
+
+  if (coordinates.length === 0) return null
+
+  // Without usable times the track can still be drawn as a plain line
+  if (timestamps.some(isNaN)) {
+    diagnostics.push({
+      severity: "info",
+      message: "Track has missing or invalid <when> times, shown as a line without playback",
+      ...location,
     })
-  } catch (error) {
-    console.error("Error parsing placemarks:", error)
+    return { type: "LineString", coordinates }
   }
 
-  return elements
+  return { type: "Track", coordinates, timestamps }
 }
 
-// Update the parseCoordinates function to be more robust
-function parseCoordinates(coordinatesString: string | null | undefined): number[][] {
+// Parse a KML coordinates string ("lng,lat[,alt] ...")
+// Invalid tuples are reported and skipped rather than replaced, so nothing is drawn at a made-up position
+function parseCoordinates(
+  coordinatesString: string | null | undefined,
+  diagnostics: ParseDiagnostic[],
+  location: DiagnosticLocation = {},
+): number[][] {
   if (!coordinatesString) return []
 
-  try {
-    // Clean up the coordinates string
-    const cleanedString = coordinatesString
-      .trim()
-      .replace(/\s+/g, " ") // Normalize whitespace
-      .replace(/,\s+/g, ",") // Remove spaces after commas
-
-    // Split by whitespace and filter out empty strings
-    const coordStrings = cleanedString.split(/\s+/).filter(Boolean)
-
-    return coordStrings.map((coordStr) => {
-      try {
-        const parts = coordStr.split(",")
-        const lng = Number.parseFloat(parts[0])
-        const lat = Number.parseFloat(parts[1])
-        const alt = parts.length > 2 ? Number.parseFloat(parts[2]) : 0
-
-        // Check if valid coordinates
-        if (isNaN(lng) || isNaN(lat)) {
-          console.warn(`Invalid coordinate: ${coordStr}`)
-          return [0, 0, 0]
-        }
+  // Clean up the coordinates string
+  const cleanedString = coordinatesString
+    .trim()
+    .replace(/\s+/g, " ") // Normalize whitespace
+    .replace(/,\s+/g, ",") // Remove spaces after commas
+
+  // Split by whitespace and filter out empty strings
+  const coordStrings = cleanedString.split(/\s+/).filter(Boolean)
+
+  const coordinates: number[][] = []
+  const invalid: string[] = []
+  coordStrings.forEach((coordStr) => {
+    const parts = coordStr.split(",")
+    const lng = Number.parseFloat(parts[0])
+    const lat = Number.parseFloat(parts[1])
+    const alt = parts.length > 2 ? Number.parseFloat(parts[2]) : 0
+
+    if (isNaN(lng) || isNaN(lat) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      invalid.push(coordStr)
+      return
+    }
 
-        return [lng, lat, alt]
-      } catch (error) {
-        console.warn(`Error parsing coordinate: ${coordStr}`, error)
-        return [0, 0, 0]
-      }
-    })
-  } catch (error) {
-    console.error("Error parsing coordinates:", error)
-    return []
-  }
+    coordinates.push([lng, lat, isNaN(alt) ? 0 : alt])
+  })
+
+  reportInvalidCoordinates(invalid, diagnostics, location)
+  return coordinates
+}
+
+// One diagnostic per geometry, as a broken file can have an invalid value in each of its vertices
+function reportInvalidCoordinates(invalid: string[], diagnostics: ParseDiagnostic[], location: DiagnosticLocation) {
+  if (invalid.length === 0) return
+  diagnostics.push({
+    severity: "warning",
+    message:
+      invalid.length === 1
+        ? `Invalid coordinate "${invalid[0]}" skipped`
+        : `${invalid.length} invalid coordinates skipped (first: "${invalid[0]}")`,
+    ...location,
+  })
+}
+
+// Alpha channel of a KML color (aabbggrr) as an opacity between 0 and 1
+function getKmlColorAlpha(kmlColor: string): number {
+  const alpha = Number.parseInt(kmlColor.substring(0, 2), 16)
+  return kmlColor.length === 8 && !isNaN(alpha) ? alpha / 255 : 1
 }
 
+const KML_COLOR_REGEX = /^[0-9a-f]{8}$/i
+
 // Convert KML color (aabbggrr) to hex color (#rrggbb)
 function kmlColorToHex(kmlColor: string): string {
-  if (!kmlColor || kmlColor.length !== 8) return "#3700ff"
+  if (!KML_COLOR_REGEX.test(kmlColor)) return "#3700ff"
 
   // KML colors are in aabbggrr format, we need to convert to #rrggbb
   const alpha = kmlColor.substring(0, 2)
@@ -546,37 +835,3 @@ function kmlColorToHex(kmlColor: string): string {
 
   return `#${red}${green}${blue}`
 }
-
-// Calculate distance between two points in km using Haversine formula
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371 // Earth radius in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180
-  const dLon = ((lon2 - lon1) * Math.PI) / 180
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  return R * c
-}
-
-// Calculate polygon area (approximate, in km²)
-function calculatePolygonArea(coordinates: number[][]): number {
-  if (coordinates.length < 3) return 0
-
-  let area = 0
-  const R = 6371 // Earth radius in km
-
-  for (let i = 0; i < coordinates.length; i++) {
-    const j = (i + 1) % coordinates.length
-
-    const lat1 = (coordinates[i][1] * Math.PI) / 180
-    const lon1 = (coordinates[i][0] * Math.PI) / 180
-    const lat2 = (coordinates[j][1] * Math.PI) / 180
-    const lon2 = (coordinates[j][0] * Math.PI) / 180
-
-    area += (lon2 - lon1) * (2 + Math.sin(lat1) + Math.sin(lat2))
-  }
-
-  area = Math.abs((area * R * R) / 2)
-  return area
-}
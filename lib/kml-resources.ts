@@ -0,0 +1,67 @@
+// Hrefs that can be used directly by the browser
+const ABSOLUTE_URL_REGEX = /^(https?:|data:|blob:)/i
+
+// URLs that may be used as an image source
+const IMAGE_URL_REGEX = /^(https?:|blob:|data:image\/)/i
+
+// Normalize a relative href into an archive path (no leading "./" or "/", forward slashes)
+export function normalizeArchivePath(href: string): string {
+  let path = href.trim().replace(/\\/g, "/")
+  try {
+    path = decodeURI(path)
+  } catch {
+    // Keep the raw href if it is not valid URI encoding
+  }
+  return path.replace(/^(\.\/|\/)+/, "")
+}
+
+// Check whether an href points outside the KMZ archive
+export function isAbsoluteUrl(href: string): boolean {
+  return ABSOLUTE_URL_REGEX.test(href.trim())
+}
+
+// Check whether a resolved URL can be shown as an image
+export function isImageUrl(url: string): boolean {
+  return IMAGE_URL_REGEX.test(url)
+}
+
+// Directory part of an archive path ("" for files at the root)
+export function getArchiveDirectory(path: string): string {
+  const index = path.lastIndexOf("/")
+  return index >= 0 ? path.substring(0, index) : ""
+}
+
+// Resolve a relative href against the directory of the file that contains it
+// Absolute URLs are returned unchanged
+export function joinArchivePath(baseDirectory: string, href: string): string {
+  if (isAbsoluteUrl(href)) return href.trim()
+
+  const segments: string[] = baseDirectory ? baseDirectory.split("/") : []
+  normalizeArchivePath(href)
+    .split("/")
+    .forEach((segment) => {
+      if (segment === "..") {
+        segments.pop()
+      } else if (segment && segment !== ".") {
+        segments.push(segment)
+      }
+    })
+
+  return segments.join("/")
+}
+
+// Resolve an href from a KML file to a URL the browser can load
+// Absolute URLs are returned as-is, relative hrefs are looked up in the KMZ resources
+export function resolveResourceUrl(href: string | undefined, resources?: Record<string, string>): string | undefined {
+  if (!href) return undefined
+  if (isAbsoluteUrl(href)) return href.trim()
+  if (!resources) return undefined
+
+  const path = normalizeArchivePath(href)
+  if (resources[path]) return resources[path]
+
+  // Archives created on Windows often differ in case from the hrefs they contain
+  const lowerPath = path.toLowerCase()
+  const match = Object.keys(resources).find((key) => key.toLowerCase() === lowerPath)
+  return match ? resources[match] : undefined
+}
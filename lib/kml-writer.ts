@@ -0,0 +1,321 @@
+import type { KmlData, KmlElement, KmlFolder, KmlGeometry, KmlNetworkLink, KmlStyle, KmlTimeSpan } from "./types"
+
+// Options for serializing KmlData
+export interface SerializeKmlOptions {
+  hrefs?: Record<string, string> // Icon and overlay href -> href to write instead, e.g. a path inside a KMZ
+}
+
+// Serialize KmlData to a KML 2.2 document
+// Folders, shared styles, ExtendedData and times are written so that parsing the result gives the same data back.
+// Resolved NetworkLinks are not written, since their content was merged into the folders.
+export function serializeKml(kmlData: KmlData, options: SerializeKmlOptions = {}): string {
+  const writer = new KmlWriter(options.hrefs ?? {})
+  return writer.write(kmlData)
+}
+
+class KmlWriter {
+  private lines: string[] = []
+  private styleIds = new Map<string, string>() // Serialized style -> Style id
+  private elementsByFolder = new Map<string, KmlElement[]>()
+  private networkLinksByFolder = new Map<string, KmlNetworkLink[]>()
+
+  constructor(private hrefs: Record<string, string>) {}
+
+  write(kmlData: KmlData): string {
+    kmlData.elements.forEach((element) => addToGroup(this.elementsByFolder, element.folderId ?? "", element))
+    kmlData.networkLinks
+      .filter((link) => link.status !== "resolved")
+      .forEach((link) => addToGroup(this.networkLinksByFolder, link.folderId ?? "", link))
+
+    this.lines.push('<?xml version="1.0" encoding="UTF-8"?>')
+    this.lines.push('<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">')
+    this.lines.push("<Document>")
+    this.writeText("name", kmlData.name, 1)
+    this.writeText("description", kmlData.description, 1)
+
+    // Styles are shared by every element with the same style, and written before they are used
+    kmlData.elements.forEach((element) => {
+      if (element.style) this.writeStyle(element.style)
+    })
+
+    kmlData.folders.forEach((folder) => this.writeFolder(folder, 1))
+    this.writeFeatures("", 1)
+
+    this.lines.push("</Document>")
+    this.lines.push("</kml>")
+    return this.lines.join("\n")
+  }
+
+  private writeLine(line: string, depth: number) {
+    this.lines.push("  ".repeat(depth) + line)
+  }
+
+  private writeText(tag: string, value: string | number | undefined, depth: number) {
+    if (value === undefined || value === "") return
+    this.writeLine(`<${tag}>${escapeXml(String(value))}</${tag}>`, depth)
+  }
+
+  private writeStyle(style: KmlStyle) {
+    const key = JSON.stringify(style)
+    if (this.styleIds.has(key)) return
+
+    const id = `style${this.styleIds.size + 1}`
+    this.styleIds.set(key, id)
+
+    this.writeLine(`<Style id="${id}">`, 1)
+
+    if (style.iconUrl || style.iconColor || style.iconScale !== undefined || style.iconHeading !== undefined) {
+      this.writeLine("<IconStyle>", 2)
+      if (style.iconColor) this.writeText("color", hexToKmlColor(style.iconColor), 3)
+      this.writeText("scale", style.iconScale, 3)
+      this.writeText("heading", style.iconHeading, 3)
+      if (style.iconUrl) {
+        this.writeLine("<Icon>", 3)
+        this.writeText("href", this.getHref(style.iconUrl), 4)
+        this.writeLine("</Icon>", 3)
+      }
+      if (style.iconHotSpot) {
+        const { x, y, xunits, yunits } = style.iconHotSpot
+        this.writeLine(`<hotSpot x="${x}" y="${y}" xunits="${xunits}" yunits="${yunits}"/>`, 3)
+      }
+      this.writeLine("</IconStyle>", 2)
+    }
+
+    const lineColor = style.color || style.strokeColor
+    const lineWidth = style.width ?? style.strokeWidth
+    if (lineColor || lineWidth !== undefined) {
+      this.writeLine("<LineStyle>", 2)
+      if (lineColor) this.writeText("color", hexToKmlColor(lineColor, style.opacity), 3)
+      this.writeText("width", lineWidth, 3)
+      this.writeLine("</LineStyle>", 2)
+    }
+
+    if (style.fillColor || style.fillOpacity !== undefined || style.strokeOpacity !== undefined) {
+      this.writeLine("<PolyStyle>", 2)
+      if (style.fillColor) this.writeText("color", hexToKmlColor(style.fillColor), 3)
+      if (style.fillOpacity !== undefined) this.writeText("fill", style.fillOpacity > 0 ? 1 : 0, 3)
+      if (style.strokeOpacity !== undefined) this.writeText("outline", style.strokeOpacity > 0 ? 1 : 0, 3)
+      this.writeLine("</PolyStyle>", 2)
+    }
+
+    this.writeLine("</Style>", 1)
+  }
+
+  private writeFolder(folder: KmlFolder, depth: number) {
+    this.writeLine("<Folder>", depth)
+    this.writeText("name", folder.name, depth + 1)
+    this.writeText("description", folder.description, depth + 1)
+    if (!folder.visibility) this.writeText("visibility", 0, depth + 1)
+    if (folder.open) this.writeText("open", 1, depth + 1)
+
+    folder.children.forEach((child) => this.writeFolder(child, depth + 1))
+    this.writeFeatures(folder.id, depth + 1)
+
+    this.writeLine("</Folder>", depth)
+  }
+
+  // Elements and unresolved NetworkLinks directly inside a folder ("" for the document root)
+  private writeFeatures(folderId: string, depth: number) {
+    this.elementsByFolder.get(folderId)?.forEach((element) => {
+      if (element.type === "GroundOverlay") {
+        this.writeGroundOverlay(element, depth)
+      } else if (element.type !== "NetworkLink") {
+        this.writePlacemark(element, depth)
+      }
+    })
+
+    this.networkLinksByFolder.get(folderId)?.forEach((link) => {
+      this.writeLine("<NetworkLink>", depth)
+      this.writeText("name", link.name, depth + 1)
+      this.writeLine("<Link>", depth + 1)
+      this.writeText("href", link.href, depth + 2)
+      this.writeLine("</Link>", depth + 1)
+      this.writeLine("</NetworkLink>", depth)
+    })
+  }
+
+  private writePlacemark(element: KmlElement, depth: number) {
+    this.writeLine("<Placemark>", depth)
+    this.writeText("name", element.name, depth + 1)
+    this.writeText("description", element.description, depth + 1)
+    this.writeTime(element.time, depth + 1)
+    if (element.style) this.writeText("styleUrl", `#${this.styleIds.get(JSON.stringify(element.style))}`, depth + 1)
+
+    if (element.extendedData) {
+      this.writeLine("<ExtendedData>", depth + 1)
+      Object.entries(element.extendedData).forEach(([name, value]) => {
+        this.writeLine(`<Data name="${escapeXml(name)}">`, depth + 2)
+        this.writeText("value", value, depth + 3)
+        this.writeLine("</Data>", depth + 2)
+      })
+      this.writeLine("</ExtendedData>", depth + 1)
+    }
+
+    this.writeGeometry(element as KmlGeometry, depth + 1)
+    this.writeLine("</Placemark>", depth)
+  }
+
+  private writeGeometry(geometry: KmlGeometry, depth: number) {
+    switch (geometry.type) {
+      case "Point":
+        this.writeLine("<Point>", depth)
+        this.writeText("coordinates", formatCoordinate(geometry.coordinates as unknown as number[]), depth + 1)
+        this.writeLine("</Point>", depth)
+        break
+
+      case "LineString":
+        this.writeLine("<LineString>", depth)
+        this.writeText("coordinates", formatCoordinates(geometry.coordinates), depth + 1)
+        this.writeLine("</LineString>", depth)
+        break
+
+      case "Polygon": {
+        const [outerRing, ...innerRings] = geometry.coordinates as unknown as number[][][]
+        this.writeLine("<Polygon>", depth)
+        this.writeRing("outerBoundaryIs", outerRing, depth + 1)
+        innerRings.forEach((ring) => this.writeRing("innerBoundaryIs", ring, depth + 1))
+        this.writeLine("</Polygon>", depth)
+        break
+      }
+
+      case "MultiGeometry":
+        this.writeLine("<MultiGeometry>", depth)
+        geometry.geometries?.forEach((child) => this.writeGeometry(child, depth + 1))
+        this.writeLine("</MultiGeometry>", depth)
+        break
+
+      case "Track":
+        // A track with segments came from a gx:MultiTrack, untimed segments are written without <when> again
+        if (geometry.geometries) {
+          this.writeLine("<gx:MultiTrack>", depth)
+          geometry.geometries.forEach((segment) => this.writeTrack(segment, depth + 1))
+          this.writeLine("</gx:MultiTrack>", depth)
+        } else {
+          this.writeTrack(geometry, depth)
+        }
+        break
+    }
+  }
+
+  private writeRing(boundary: string, ring: number[][], depth: number) {
+    this.writeLine(`<${boundary}>`, depth)
+    this.writeLine("<LinearRing>", depth + 1)
+    this.writeText("coordinates", formatCoordinates(ring), depth + 2)
+    this.writeLine("</LinearRing>", depth + 1)
+    this.writeLine(`</${boundary}>`, depth)
+  }
+
+  private writeTrack(track: KmlGeometry, depth: number) {
+    this.writeLine("<gx:Track>", depth)
+    track.timestamps?.forEach((time) => this.writeText("when", formatTime(time), depth + 1))
+    track.coordinates.forEach((coordinate) => this.writeText("gx:coord", coordinate.join(" "), depth + 1))
+    this.writeLine("</gx:Track>", depth)
+  }
+
+  private writeGroundOverlay(element: KmlElement, depth: number) {
+    const overlay = element.overlay
+    if (!overlay) return
+
+    this.writeLine("<GroundOverlay>", depth)
+    this.writeText("name", element.name, depth + 1)
+    this.writeText("description", element.description, depth + 1)
+    this.writeTime(element.time, depth + 1)
+    // Only the alpha channel of the overlay color is used
+    if (overlay.opacity !== undefined) this.writeText("color", hexToKmlColor("#ffffff", overlay.opacity), depth + 1)
+
+    this.writeLine("<Icon>", depth + 1)
+    this.writeText("href", this.getHref(overlay.href), depth + 2)
+    this.writeLine("</Icon>", depth + 1)
+
+    if (overlay.latLonQuad) {
+      this.writeLine("<gx:LatLonQuad>", depth + 1)
+      this.writeText("coordinates", formatCoordinates(overlay.latLonQuad), depth + 2)
+      this.writeLine("</gx:LatLonQuad>", depth + 1)
+    } else if (overlay.latLonBox) {
+      const { north, south, east, west, rotation } = overlay.latLonBox
+      this.writeLine("<LatLonBox>", depth + 1)
+      this.writeText("north", north, depth + 2)
+      this.writeText("south", south, depth + 2)
+      this.writeText("east", east, depth + 2)
+      this.writeText("west", west, depth + 2)
+      if (rotation) this.writeText("rotation", rotation, depth + 2)
+      this.writeLine("</LatLonBox>", depth + 1)
+    }
+
+    this.writeLine("</GroundOverlay>", depth)
+  }
+
+  private writeTime(time: KmlTimeSpan | undefined, depth: number) {
+    if (!time) return
+
+    if (time.begin !== undefined && time.begin === time.end) {
+      this.writeLine("<TimeStamp>", depth)
+      this.writeText("when", formatTime(time.begin), depth + 1)
+      this.writeLine("</TimeStamp>", depth)
+      return
+    }
+
+    this.writeLine("<TimeSpan>", depth)
+    if (time.begin !== undefined) this.writeText("begin", formatTime(time.begin), depth + 1)
+    if (time.end !== undefined) this.writeText("end", formatTime(time.end), depth + 1)
+    this.writeLine("</TimeSpan>", depth)
+  }
+
+  private getHref(href: string): string {
+    return this.hrefs[href] ?? href
+  }
+}
+
+function addToGroup<T>(groups: Map<string, T[]>, key: string, item: T) {
+  const group = groups.get(key)
+  if (group) {
+    group.push(item)
+  } else {
+    groups.set(key, [item])
+  }
+}
+
+// Escape text and attribute values
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+// "lng,lat[,alt]"
+function formatCoordinate(coordinate: number[]): string {
+  return coordinate.join(",")
+}
+
+function formatCoordinates(coordinates: number[][]): string {
+  return coordinates.map(formatCoordinate).join(" ")
+}
+
+// Epoch milliseconds to a KML dateTime
+function formatTime(time: number): string {
+  return new Date(time).toISOString()
+}
+
+// Convert hex color (#rrggbb) to KML color (aabbggrr), fully opaque unless an opacity is given
+export function hexToKmlColor(hexColor: string, opacity = 1): string {
+  const hex = hexColor.replace("#", "")
+  const fullHex =
+    hex.length === 3
+      ? hex
+          .split("")
+          .map((char) => char + char)
+          .join("")
+      : hex.substring(0, 6).padEnd(6, "0")
+
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255)
+    .toString(16)
+    .padStart(2, "0")
+  const red = fullHex.substring(0, 2)
+  const green = fullHex.substring(2, 4)
+  const blue = fullHex.substring(4, 6)
+
+  return `${alpha}${blue}${green}${red}`.toLowerCase()
+}
@@ -1,13 +1,29 @@
 import JSZip from "jszip"
-import { parseKml } from "./kml-parser"
-import type { KmlData } from "./types"
+import { scopeKmlDataIds } from "./element-ids"
+import { parseKml, parseKmlStream } from "./kml-parser"
+import { flattenFolders } from "./kml-folders"
+import { getArchiveDirectory, isAbsoluteUrl, resolveResourceUrl } from "./kml-resources"
+import { getErrorMessage } from "./parse-diagnostics"
+import { getTimeExtent } from "./time-filter"
+import type { KmlData, KmlFolder, KmlNetworkLink, ParseDiagnostic, ParseProgress } from "./types"
+
+// How many levels of NetworkLinks are followed inside an archive
+const MAX_NETWORK_LINK_DEPTH = 5
+
+// Contents of a KMZ archive
+export interface KmzContents {
+  kmlData: KmlData
+  images: Record<string, Blob> // Archive path -> image, turned into KmlData.resources by the caller
+}
 
 /**
  * Parse a KMZ file and extract the KML content
+ * Images are returned as Blobs rather than object URLs, since URLs created in a worker die with it
  * @param file The KMZ file to parse
- * @returns Parsed KML data
+ * @param onProgress Called while the main KML document is parsed
+ * @returns Parsed KML data and the images in the archive
  */
-export async function parseKmz(file: File): Promise<KmlData> {
+export async function readKmz(file: File, onProgress?: (progress: ParseProgress) => void): Promise<KmzContents> {
   try {
     // Validate input
     if (!file) {
@@ -18,22 +34,15 @@ export async function parseKmz(file: File): Promise<KmlData> {
       throw new Error("Not a KMZ file")
     }
 
-    console.log("Starting KMZ extraction for file:", file.name)
-
     // Load the KMZ file as a ZIP archive
     const zip = new JSZip()
     let zipContents
     try {
       zipContents = await zip.loadAsync(file)
-      console.log("KMZ file loaded as ZIP successfully")
-    } catch (error) {
-      console.error("Failed to load KMZ as ZIP:", error)
+    } catch {
       throw new Error("Invalid KMZ file: Not a valid ZIP archive")
     }
 
-    // Log all files in the archive for debugging
-    console.log("Files in KMZ archive:", Object.keys(zipContents.files))
-
     // Find the main KML file (usually doc.kml)
     let kmlFile = zipContents.file("doc.kml")
 
@@ -43,8 +52,6 @@ export async function parseKmz(file: File): Promise<KmlData> {
         (filename) => filename.toLowerCase().endsWith(".kml") && !zipContents.files[filename].dir,
       )
 
-      console.log("KML files found in archive:", kmlFiles)
-
       if (kmlFiles.length === 0) {
         throw new Error("No KML file found in the KMZ archive")
       }
@@ -56,58 +63,182 @@ export async function parseKmz(file: File): Promise<KmlData> {
       throw new Error("No KML file found in the KMZ archive")
     }
 
-    console.log("Found KML file in archive:", kmlFile.name)
-
     // Extract the KML content
     let kmlContent
     try {
-      kmlContent = await kmlFile.async("string")
-      console.log("KML content extracted successfully, length:", kmlContent.length)
-
-      // Log a preview of the content for debugging
-      console.log("KML content preview:", kmlContent.substring(0, 200) + "...")
-    } catch (error) {
-      console.error("Failed to extract KML content:", error)
+      kmlContent = await kmlFile.async("uint8array")
+    } catch {
       throw new Error("Failed to extract KML content from KMZ file")
     }
 
     // Validate the KML content
-    if (!kmlContent || kmlContent.trim() === "") {
+    if (kmlContent.length === 0) {
       throw new Error("Extracted KML file is empty")
     }
 
-    // Extract any images or other resources (for future use)
-    const resources = new Map<string, string>()
+    // Extract images so GroundOverlay and IconStyle hrefs can be resolved against the archive
+    const diagnostics: ParseDiagnostic[] = []
+    const images: Record<string, Blob> = {}
     const imageFiles = Object.keys(zipContents.files).filter(
-      (filename) => /\.(png|jpg|jpeg|gif|svg)$/i.test(filename) && !zipContents.files[filename].dir,
+      (filename) => /\.(png|jpg|jpeg|gif|svg|bmp|webp)$/i.test(filename) && !zipContents.files[filename].dir,
     )
 
-    console.log("Image files found in archive:", imageFiles)
-
     for (const imageFile of imageFiles) {
       try {
         const imageBlob = await zipContents.file(imageFile)?.async("blob")
         if (imageBlob) {
-          const imageUrl = URL.createObjectURL(imageBlob)
-          resources.set(imageFile, imageUrl)
+          images[imageFile] = imageBlob
         }
       } catch (error) {
-        console.warn(`Failed to extract image ${imageFile}:`, error)
         // Continue with other images
+        diagnostics.push({
+          severity: "warning",
+          message: `Failed to extract image ${imageFile}: ${getErrorMessage(error)}`,
+        })
       }
     }
 
-    // Parse the KML content
-    try {
-      const kmlData = await parseKml(kmlContent)
-      console.log("KML parsed successfully, elements:", kmlData.elements.length)
-      return kmlData
-    } catch (error) {
-      console.error("Error parsing extracted KML:", error)
-      throw error
+    // Parse the KML content and follow links to the other KML files in the archive
+    const rootData = await parseKmlStream(new Blob([kmlContent]).stream(), kmlContent.length, {
+      basePath: getArchiveDirectory(kmlFile.name),
+      onProgress,
+    })
+    const kmlData = await resolveNetworkLinks(rootData, zipContents, new Set([kmlFile.name]), 1)
+
+    return {
+      kmlData: {
+        ...kmlData,
+        diagnostics: [...diagnostics, ...kmlData.diagnostics, ...findMissingImages(kmlData, images)],
+      },
+      images,
     }
   } catch (error) {
-    console.error("Error parsing KMZ file:", error)
     throw error instanceof Error ? error : new Error("Failed to parse KMZ file")
   }
 }
+
+// Follow relative NetworkLinks to other KML files in the archive and merge each one as a sub-folder
+// `ancestors` holds the files on the current link chain, so a file linking back to one of them is a cycle
+async function resolveNetworkLinks(
+  kmlData: KmlData,
+  zip: JSZip,
+  ancestors: Set<string>,
+  depth: number,
+): Promise<KmlData> {
+  if (kmlData.networkLinks.length === 0) return kmlData
+
+  const folders = [...kmlData.folders]
+  const elements = [...kmlData.elements]
+  const networkLinks: KmlNetworkLink[] = []
+  const diagnostics = [...kmlData.diagnostics]
+
+  for (const link of kmlData.networkLinks) {
+    if (link.status === "external") {
+      networkLinks.push(link)
+      continue
+    }
+
+    const file = findArchiveFile(zip, link.href)
+    if (!file) {
+      networkLinks.push({ ...link, status: "missing" })
+      continue
+    }
+
+    if (ancestors.has(file.name)) {
+      networkLinks.push({ ...link, status: "cycle" })
+      continue
+    }
+
+    if (depth > MAX_NETWORK_LINK_DEPTH) {
+      networkLinks.push({ ...link, status: "depth-limit" })
+      continue
+    }
+
+    try {
+      const content = await file.async("string")
+      // Ids are prefixed with the link, as they are only unique within the linked file (which can be linked twice)
+      const idPrefix = `${link.id}/`
+      const linkedData = scopeKmlDataIds(
+        await resolveNetworkLinks(
+          await parseKml(content, { basePath: getArchiveDirectory(file.name) }),
+          zip,
+          new Set([...ancestors, file.name]),
+          depth + 1,
+        ),
+        idPrefix,
+      )
+
+      // Wrap the linked document in a folder placed where the NetworkLink was
+      // Its id is scoped like the linked content, so it can't collide with a folder id of the document
+      const folderId = idPrefix
+      const folder: KmlFolder = {
+        id: folderId,
+        name: link.name || linkedData.name || file.name,
+        description: linkedData.description,
+        visibility: true,
+        open: false,
+        parentId: link.folderId,
+        children: linkedData.folders.map((child) => ({ ...child, parentId: child.parentId ?? folderId })),
+      }
+
+      const parent = link.folderId ? flattenFolders(folders).find((f) => f.id === link.folderId) : undefined
+      if (parent) {
+        parent.children.push(folder)
+      } else {
+        folders.push(folder)
+      }
+
+      elements.push(
+        ...linkedData.elements.map((element) => (element.folderId ? element : { ...element, folderId })),
+      )
+      networkLinks.push({ ...link, status: "resolved" }, ...linkedData.networkLinks)
+      // Problems in nested links already name their own file
+      diagnostics.push(...linkedData.diagnostics.map((diagnostic) => ({ source: file.name, ...diagnostic })))
+    } catch (error) {
+      diagnostics.push({
+        severity: "error",
+        message: `Failed to load NetworkLink target ${file.name}: ${getErrorMessage(error)}`,
+      })
+      networkLinks.push({ ...link, status: "missing" })
+    }
+  }
+
+  return {
+    ...kmlData,
+    folders,
+    elements,
+    networkLinks,
+    timeExtent: getTimeExtent(elements),
+    diagnostics,
+  }
+}
+
+// Report icon and overlay images that are referenced relative to the archive but not in it, once per path
+function findMissingImages(kmlData: KmlData, images: Record<string, Blob>): ParseDiagnostic[] {
+  const missing = new Map<string, string>() // href -> first element using it
+  const resources = Object.fromEntries(Object.keys(images).map((path) => [path, path]))
+
+  for (const element of kmlData.elements) {
+    for (const href of [element.style?.iconUrl, element.overlay?.href]) {
+      if (!href || isAbsoluteUrl(href) || missing.has(href) || resolveResourceUrl(href, resources)) continue
+      missing.set(href, element.id)
+    }
+  }
+
+  return Array.from(missing, ([href, elementId]) => ({
+    severity: "warning" as const,
+    message: `Image not found in archive: ${href}`,
+    elementId,
+  }))
+}
+
+// Find a file in the archive by path, ignoring query strings and case differences
+function findArchiveFile(zip: JSZip, path: string): JSZip.JSZipObject | null {
+  const cleanPath = path.split(/[?#]/)[0]
+  const exactMatch = zip.file(cleanPath)
+  if (exactMatch) return exactMatch
+
+  const lowerPath = cleanPath.toLowerCase()
+  const match = Object.keys(zip.files).find((name) => name.toLowerCase() === lowerPath && !zip.files[name].dir)
+  return match ? zip.file(match) : null
+}
@@ -0,0 +1,63 @@
+import JSZip from "jszip"
+import { serializeKml } from "./kml-writer"
+import { isAbsoluteUrl, normalizeArchivePath, resolveResourceUrl } from "./kml-resources"
+import type { KmlData } from "./types"
+
+// Directory of the archive that holds images downloaded from absolute URLs
+const FILES_DIRECTORY = "files"
+
+/**
+ * Write KmlData to a KMZ archive
+ * Icons and overlay images are bundled: embedded ones keep their archive path, remote ones are downloaded
+ * into `files/`. Images that cannot be downloaded (e.g. blocked by CORS) keep their original URL.
+ * @param kmlData The data to write
+ * @returns The KMZ file contents
+ */
+export async function writeKmz(kmlData: KmlData): Promise<Blob> {
+  const files = new Map<string, ArrayBuffer>() // Archive path -> image
+  const hrefs: Record<string, string> = {}
+
+  const hrefsToBundle = new Set<string>()
+  kmlData.elements.forEach((element) => {
+    ;[element.style?.iconUrl, element.overlay?.href].forEach((href) => {
+      if (href) hrefsToBundle.add(href)
+    })
+  })
+
+  for (const href of hrefsToBundle) {
+    const url = resolveResourceUrl(href, kmlData.resources)
+    if (!url || href.startsWith("data:")) continue
+
+    const path = isAbsoluteUrl(href) ? getDownloadPath(href, files) : normalizeArchivePath(href)
+    try {
+      const response = await fetch(url)
+      if (!response.ok) continue
+
+      files.set(path, await response.arrayBuffer())
+      hrefs[href] = path
+    } catch {
+      // Keep the original href
+    }
+  }
+
+  // doc.kml must be the first file so other applications find it
+  const zip = new JSZip()
+  zip.file("doc.kml", serializeKml(kmlData, { hrefs }))
+  files.forEach((data, path) => zip.file(path, data))
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE", mimeType: "application/vnd.google-earth.kmz" })
+}
+
+// Archive path for an image downloaded from a URL, named after the URL and unique within the archive
+function getDownloadPath(url: string, files: Map<string, ArrayBuffer>): string {
+  const fileName = url.split(/[?#]/)[0].split("/").pop()?.replace(/[^\w.-]/g, "_") || "image"
+  const dotIndex = fileName.lastIndexOf(".")
+  const baseName = dotIndex > 0 ? fileName.substring(0, dotIndex) : fileName
+  const extension = dotIndex > 0 ? fileName.substring(dotIndex) : ".png"
+
+  let path = `${FILES_DIRECTORY}/${baseName}${extension}`
+  for (let i = 2; files.has(path); i++) {
+    path = `${FILES_DIRECTORY}/${baseName}-${i}${extension}`
+  }
+  return path
+}
@@ -0,0 +1,50 @@
+// Marker clustering for Point elements
+// Loaded on demand after Leaflet, since the plugin extends the global L that Leaflet sets
+import "leaflet.markercluster"
+import "leaflet.markercluster/dist/MarkerCluster.css"
+
+// Create a cluster group showing the number of points, colored with the most common color among them
+// Co-located points that still form a cluster at the maximum zoom are spread out (spiderfied) on click
+// With a `pane`, cluster icons are drawn there along with the layer's markers
+export function createClusterGroup(L: any, pane?: string): any {
+  return L.markerClusterGroup({
+    ...(pane ? { clusterPane: pane } : {}),
+    chunkedLoading: true,
+    showCoverageOnHover: false,
+    spiderfyOnMaxZoom: true,
+    iconCreateFunction: (cluster: any) => {
+      const count = cluster.getChildCount()
+      const size = count < 10 ? 32 : count < 100 ? 40 : 48
+      const label = count < 1000 ? count.toString() : `${(count / 1000).toFixed(1)}k`
+
+      // Built as an element, so a color from the file is only ever set as a style value
+      const content = document.createElement("div")
+      content.style.backgroundColor = getDominantColor(cluster.getAllChildMarkers())
+      content.textContent = label
+
+      return L.divIcon({
+        html: content,
+        className: "kml-cluster",
+        iconSize: [size, size],
+      })
+    },
+  })
+}
+
+function getDominantColor(markers: any[]): string {
+  const counts = new Map<string, number>()
+  let dominant = "#3700ff"
+  let maxCount = 0
+
+  for (const marker of markers) {
+    const color = marker.options.clusterColor || "#3700ff"
+    const count = (counts.get(color) || 0) + 1
+    counts.set(color, count)
+    if (count > maxCount) {
+      dominant = color
+      maxCount = count
+    }
+  }
+
+  return dominant
+}
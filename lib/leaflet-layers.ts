@@ -0,0 +1,421 @@
+import type { KmlElement, KmlElementType, KmlGeometry, KmlStyle } from "./types"
+import { isImageUrl, resolveResourceUrl } from "./kml-resources"
+
+// Anything with a geometry: a KmlElement or a MultiGeometry child
+interface GeometryLike {
+  type: KmlElementType
+  coordinates: number[][]
+  geometries?: KmlGeometry[]
+}
+
+// Where the layers of an element are drawn
+export interface LayerTarget {
+  pane?: string // Map pane, Leaflet's default panes when not set
+  renderer?: any // Shared canvas renderer (high-volume mode), created in the same pane
+}
+
+// Create the Leaflet layer for a geometry (L is the dynamically imported Leaflet module)
+// MultiGeometry becomes a single feature group so it selects and highlights as one element
+// With a canvas renderer (high-volume mode) every vector is drawn on it and points become circle markers
+export function createGeometryLayer(
+  L: any,
+  geometry: GeometryLike,
+  style?: KmlStyle,
+  title?: string,
+  resources?: Record<string, string>,
+  target: LayerTarget = {},
+): any | null {
+  const { renderer } = target
+
+  switch (geometry.type) {
+    case "Point": {
+      if (!geometry.coordinates || geometry.coordinates.length < 2) return null
+      const [lng, lat] = geometry.coordinates as unknown as number[]
+      if (renderer) {
+        return createCircleMarker(L, [lat, lng], style, target)
+      }
+      return createIconMarker(L, [lat, lng], style, title, resources, target)
+    }
+
+    case "LineString": {
+      if (!geometry.coordinates || geometry.coordinates.length < 2) return null
+      const points = geometry.coordinates.map(([lng, lat]) => [lat, lng])
+      return L.polyline(points, {
+        ...getPaneOptions(target),
+        renderer,
+        color: style?.color || "#3700ff",
+        weight: style?.width || 3,
+        opacity: style?.opacity || 1,
+      })
+    }
+
+    case "Track": {
+      // gx:MultiTrack segments are drawn as one polyline with gaps between them
+      const segments = geometry.geometries?.map((segment) => segment.coordinates) || [geometry.coordinates]
+      const lines = segments.filter((segment) => segment.length >= 2)
+      if (lines.length === 0) return null
+      return L.polyline(
+        lines.map((segment) => segment.map(([lng, lat]) => [lat, lng])),
+        {
+          ...getPaneOptions(target),
+          renderer,
+          color: style?.color || "#3700ff",
+          weight: style?.width || 3,
+          opacity: style?.opacity || 1,
+        },
+      )
+    }
+
+    case "Polygon": {
+      if (!geometry.coordinates || geometry.coordinates.length === 0) return null
+      const rings = (geometry.coordinates as unknown as number[][][]).map((ring) =>
+        ring.map(([lng, lat]) => [lat, lng]),
+      )
+      return L.polygon(rings, {
+        ...getPaneOptions(target),
+        renderer,
+        color: style?.strokeColor || "#3700ff",
+        weight: style?.strokeWidth || 1,
+        opacity: style?.strokeOpacity || 1,
+        fillColor: style?.fillColor || "#42eedc",
+        fillOpacity: style?.fillOpacity || 0.2,
+      })
+    }
+
+    case "MultiGeometry": {
+      const children = (geometry.geometries || [])
+        .map((child) => createGeometryLayer(L, child, style, title, resources, target))
+        .filter(Boolean)
+      return children.length > 0 ? L.featureGroup(children) : null
+    }
+
+    default:
+      return null
+  }
+}
+
+// Create the Leaflet layer for any KML element, or null if it cannot be rendered
+export function createElementLayer(
+  L: any,
+  element: KmlElement,
+  resources?: Record<string, string>,
+  target: LayerTarget = {},
+): any | null {
+  if (element.type === "GroundOverlay") {
+    return createGroundOverlayLayer(L, element, resources, target.pane)
+  }
+  return createGeometryLayer(L, element, element.style, element.name, resources, target)
+}
+
+// Leaflet copies every option, so an undefined pane would replace the default one instead of keeping it
+function getPaneOptions({ pane }: LayerTarget): { pane?: string } {
+  return pane ? { pane } : {}
+}
+
+// Color representing a point, also kept in the marker's `clusterColor` option to color clusters
+export function getPointColor(style?: KmlStyle): string {
+  return style?.iconColor || style?.color || "#3700ff"
+}
+
+// Point drawn on the canvas renderer, filled with the icon color since markers with images are DOM elements
+function createCircleMarker(L: any, latLng: [number, number], style: KmlStyle | undefined, target: LayerTarget): any {
+  return L.circleMarker(latLng, {
+    ...getPaneOptions(target),
+    renderer: target.renderer,
+    radius: Math.max(5 * (style?.iconScale || 1), 3),
+    color: "#ffffff",
+    weight: 1,
+    fillColor: getPointColor(style),
+    fillOpacity: 0.9,
+    clusterColor: getPointColor(style),
+  })
+}
+
+// Save the style of a vector layer (or of each vector in a group) and return a function restoring it
+export function saveLayerStyle(layer: any): () => void {
+  const paths: any[] = []
+  const collect = (child: any) => {
+    if (child.eachLayer) {
+      child.eachLayer(collect)
+    } else if (child.setStyle) {
+      paths.push(child)
+    }
+  }
+  collect(layer)
+
+  const saved = paths.map((path) => {
+    const { color, weight, opacity, fillOpacity } = path.options
+    return { path, style: { color, weight, opacity, fillOpacity } }
+  })
+
+  return () => saved.forEach(({ path, style }) => path.setStyle(style))
+}
+
+// Colors as produced by the parsers (#rrggbb)
+const HEX_COLOR_REGEX = /^#[0-9a-f]{6}$/i
+
+// Base icon size in pixels, multiplied by IconStyle <scale> (same as Google Earth)
+const ICON_SIZE = 32
+
+// Create a marker using the element's IconStyle, or Leaflet's default marker when it has none
+function createIconMarker(
+  L: any,
+  latLng: [number, number],
+  style?: KmlStyle,
+  title?: string,
+  resources?: Record<string, string>,
+  target: LayerTarget = {},
+): any {
+  const options = {
+    title: title || "Point",
+    clusterColor: getPointColor(style),
+    // The default icon's shadow follows the marker into its pane, so both are hidden and faded together
+    ...(target.pane ? { pane: target.pane, shadowPane: target.pane } : {}),
+  }
+  if (!style?.iconUrl && !style?.iconColor) {
+    return L.marker(latLng, options)
+  }
+
+  const url = resolveResourceUrl(style.iconUrl, resources)
+  if (!url || !isImageUrl(url)) {
+    return L.marker(latLng, { ...options, icon: createFallbackIcon(L, style) })
+  }
+
+  const marker = L.marker(latLng, { ...options, icon: createImageIcon(L, url, style) })
+
+  // Swap in the colored default if the image cannot be loaded (e.g. an external URL while offline)
+  probeIconUrl(url).then((loads) => {
+    if (!loads) marker.setIcon(createFallbackIcon(L, style))
+  })
+
+  return marker
+}
+
+// Whether icon images load, by URL; most files use a few icons for many markers, so each is loaded only once
+const iconProbes = new Map<string, Promise<boolean>>()
+
+function probeIconUrl(url: string): Promise<boolean> {
+  let probe = iconProbes.get(url)
+  if (!probe) {
+    probe = new Promise((resolve) => {
+      const image = new Image()
+      image.onload = () => resolve(true)
+      image.onerror = () => resolve(false)
+      image.src = url
+    })
+    iconProbes.set(url, probe)
+  }
+  return probe
+}
+
+// Icon from an image URL, honoring scale, hotSpot and heading
+function createImageIcon(L: any, url: string, style: KmlStyle): any {
+  const size = Math.round(ICON_SIZE * (style.iconScale ?? 1))
+  const anchor = getIconAnchor(style, size)
+  const heading = style.iconHeading || 0
+
+  if (!heading) {
+    return L.icon({
+      iconUrl: url,
+      iconSize: [size, size],
+      iconAnchor: anchor,
+      popupAnchor: [size / 2 - anchor[0], -anchor[1]],
+    })
+  }
+
+  // L.icon cannot rotate, so rotate the image around the hotSpot inside a div icon
+  // The image is built as an element, since the URL comes from the file and must not be parsed as HTML
+  const image = document.createElement("img")
+  image.src = url
+  image.alt = ""
+  image.style.width = `${size}px`
+  image.style.height = `${size}px`
+  image.style.transform = `rotate(${heading}deg)`
+  image.style.transformOrigin = `${anchor[0]}px ${anchor[1]}px`
+
+  return L.divIcon({
+    html: image,
+    className: "kml-icon",
+    iconSize: [size, size],
+    iconAnchor: anchor,
+    popupAnchor: [size / 2 - anchor[0], -anchor[1]],
+  })
+}
+
+// Pin colored with IconStyle <color>, used when the icon image is missing
+function createFallbackIcon(L: any, style: KmlStyle): any {
+  const size = Math.round(ICON_SIZE * (style.iconScale ?? 1))
+  // Only a hex color goes into the markup
+  const color = style.iconColor && HEX_COLOR_REGEX.test(style.iconColor) ? style.iconColor : "#ff3f19"
+
+  return L.divIcon({
+    html: `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 24 24" fill="${color}" stroke="#ffffff" stroke-width="1.5"><path d="M12 2C8.1 2 5 5.1 5 9c0 5.3 7 13 7 13s7-7.7 7-13c0-3.9-3.1-7-7-7z"/><circle cx="12" cy="9" r="2.5" fill="#ffffff" stroke="none"/></svg>`,
+    className: "kml-icon",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size],
+    popupAnchor: [0, -size],
+  })
+}
+
+// Convert a KML hotSpot (y measured from the bottom) to a Leaflet icon anchor (from the top-left)
+function getIconAnchor(style: KmlStyle, size: number): [number, number] {
+  const hotSpot = style.iconHotSpot
+  if (!hotSpot) return [size / 2, size / 2]
+
+  const scale = style.iconScale ?? 1
+  const toPixels = (value: number, units: string) =>
+    units === "fraction" ? value * size : units === "insetPixels" ? size - value * scale : value * scale
+
+  return [toPixels(hotSpot.x, hotSpot.xunits), size - toPixels(hotSpot.y, hotSpot.yunits)]
+}
+
+// Create an image overlay for a GroundOverlay, stretched over its (possibly rotated) corners
+export function createGroundOverlayLayer(
+  L: any,
+  element: KmlElement,
+  resources?: Record<string, string>,
+  pane?: string,
+): any | null {
+  const url = resolveResourceUrl(element.overlay?.href, resources)
+  if (!url || element.coordinates.length !== 4) return null
+
+  const corners = element.coordinates.map(([lng, lat]) => L.latLng(lat, lng))
+  const options = {
+    ...getPaneOptions({ pane }),
+    opacity: element.overlay?.opacity ?? 1,
+    interactive: true,
+    alt: element.name || "Ground overlay",
+  }
+
+  // Axis-aligned boxes can use the stock overlay
+  const box = element.overlay?.latLonBox
+  if (!element.overlay?.latLonQuad && box && !box.rotation) {
+    return L.imageOverlay(
+      url,
+      [
+        [box.south, box.west],
+        [box.north, box.east],
+      ],
+      options,
+    )
+  }
+
+  return new (getQuadImageOverlayClass(L))(url, corners, options)
+}
+
+// Image overlay whose corners are placed with a CSS projective transform, which covers both
+// rotated LatLonBoxes and arbitrary gx:LatLonQuads
+let quadImageOverlayClass: any = null
+
+function getQuadImageOverlayClass(L: any): any {
+  if (quadImageOverlayClass) return quadImageOverlayClass
+
+  quadImageOverlayClass = L.ImageOverlay.extend({
+    // corners: [lowerLeft, lowerRight, upperRight, upperLeft]
+    initialize(url: string, corners: any[], options: any) {
+      this._corners = corners
+      L.ImageOverlay.prototype.initialize.call(this, url, L.latLngBounds(corners), options)
+    },
+
+    onAdd(map: any) {
+      L.ImageOverlay.prototype.onAdd.call(this, map)
+      // The transform depends on the natural image size, which is only known after loading
+      this.on("load", this._reset, this)
+    },
+
+    onRemove(map: any) {
+      this.off("load", this._reset, this)
+      L.ImageOverlay.prototype.onRemove.call(this, map)
+    },
+
+    _animateZoom(e: any) {
+      this._applyTransform(this._corners.map((corner: any) => this._map._latLngToNewLayerPoint(corner, e.zoom, e.center)))
+    },
+
+    _reset() {
+      this._applyTransform(this._corners.map((corner: any) => this._map.latLngToLayerPoint(corner)))
+    },
+
+    _applyTransform(points: any[]) {
+      const image = this._image
+      const width = image.naturalWidth || 1
+      const height = image.naturalHeight || 1
+      const [lowerLeft, lowerRight, upperRight, upperLeft] = points
+
+      image.style.width = `${width}px`
+      image.style.height = `${height}px`
+      image.style.transformOrigin = "0 0"
+      image.style.transform = `matrix3d(${computeProjectiveTransform(width, height, [
+        upperLeft,
+        upperRight,
+        lowerRight,
+        lowerLeft,
+      ]).join(",")})`
+    },
+  })
+
+  return quadImageOverlayClass
+}
+
+// CSS matrix3d mapping the corners of a width x height rectangle (clockwise from top-left)
+// onto four target points
+function computeProjectiveTransform(width: number, height: number, targets: { x: number; y: number }[]): number[] {
+  const source = [
+    [0, 0],
+    [width, 0],
+    [width, height],
+    [0, height],
+  ]
+  const destination = targets.map((point) => [point.x, point.y])
+
+  const t = multiply3x3(basisToPoints(destination), adjugate3x3(basisToPoints(source)))
+  const n = t.map((value) => value / t[8])
+
+  // Column-major 4x4 with the 3x3 homography in the x, y and w rows/columns
+  return [n[0], n[3], 0, n[6], n[1], n[4], 0, n[7], 0, 0, 1, 0, n[2], n[5], 0, n[8]]
+}
+
+// Matrix mapping the projective basis onto four points
+function basisToPoints(points: number[][]): number[] {
+  const [[x1, y1], [x2, y2], [x3, y3], [x4, y4]] = points
+  const m = [x1, x2, x3, y1, y2, y3, 1, 1, 1]
+  const v = multiply3x1(adjugate3x3(m), [x4, y4, 1])
+  return multiply3x3(m, [v[0], 0, 0, 0, v[1], 0, 0, 0, v[2]])
+}
+
+function adjugate3x3(m: number[]): number[] {
+  return [
+    m[4] * m[8] - m[5] * m[7],
+    m[2] * m[7] - m[1] * m[8],
+    m[1] * m[5] - m[2] * m[4],
+    m[5] * m[6] - m[3] * m[8],
+    m[0] * m[8] - m[2] * m[6],
+    m[2] * m[3] - m[0] * m[5],
+    m[3] * m[7] - m[4] * m[6],
+    m[1] * m[6] - m[0] * m[7],
+    m[0] * m[4] - m[1] * m[3],
+  ]
+}
+
+function multiply3x3(a: number[], b: number[]): number[] {
+  const result: number[] = []
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      result.push(a[3 * i] * b[j] + a[3 * i + 1] * b[3 + j] + a[3 * i + 2] * b[6 + j])
+    }
+  }
+  return result
+}
+
+function multiply3x1(m: number[], v: number[]): number[] {
+  return [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+  ]
+}
+
+// Bounds of a marker, path or feature group
+export function getLayerBounds(L: any, layer: any): any {
+  return layer.getBounds ? layer.getBounds() : L.latLngBounds([layer.getLatLng()])
+}
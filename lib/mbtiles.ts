@@ -0,0 +1,146 @@
+import type { Database, SqlJsStatic } from "sql.js"
+import type { GeoBounds } from "./geo"
+
+// A raster MBTiles file (a SQLite database of tiles), drawn as the base layer without a connection
+// sql.js keeps the whole database in memory, so the file has to fit in it.
+export interface MbtilesSource {
+  name: string
+  format: string // Image format of the tiles: png, jpg or webp
+  minZoom: number
+  maxZoom: number
+  bounds?: GeoBounds
+  attribution?: string
+  getTile(zoom: number, x: number, y: number): Uint8Array | null
+  close(): void
+}
+
+const TILE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+}
+
+let sqlPromise: Promise<SqlJsStatic> | null = null
+
+// sql.js is only loaded once an MBTiles file is opened; its WebAssembly file is served with the app, so it is
+// cached for offline use like the rest of the viewer
+function loadSql(): Promise<SqlJsStatic> {
+  if (!sqlPromise) {
+    sqlPromise = import("sql.js").then(({ default: initSqlJs }) =>
+      initSqlJs({ locateFile: () => new URL("sql.js/dist/sql-wasm-browser.wasm", import.meta.url).toString() }),
+    )
+    // Allow retrying later, e.g. when the WebAssembly file couldn't be downloaded
+    sqlPromise.catch(() => {
+      sqlPromise = null
+    })
+  }
+  return sqlPromise
+}
+
+function readMetadata(database: Database): Record<string, string> {
+  const [result] = database.exec("SELECT name, value FROM metadata")
+  return Object.fromEntries((result?.values ?? []).map(([name, value]) => [String(name), String(value ?? "")]))
+}
+
+// "west,south,east,north" in degrees
+function parseBounds(value: string | undefined): GeoBounds | undefined {
+  const [west, south, east, north] = (value || "").split(",").map(Number)
+  return [west, south, east, north].every(Number.isFinite) ? [[south, west], [north, east]] : undefined
+}
+
+export async function openMbtiles(file: File): Promise<MbtilesSource> {
+  const [SQL, buffer] = await Promise.all([loadSql(), file.arrayBuffer()])
+
+  let database: Database
+  let metadata: Record<string, string>
+  try {
+    database = new SQL.Database(new Uint8Array(buffer))
+    metadata = readMetadata(database)
+  } catch {
+    throw new Error("The file is not an MBTiles database")
+  }
+
+  try {
+    const format = (metadata.format || "png").toLowerCase()
+    if (format === "pbf") {
+      throw new Error("Vector MBTiles are not supported, only raster tiles (png, jpg or webp)")
+    }
+    if (!TILE_MIME_TYPES[format]) {
+      throw new Error(`Unsupported MBTiles tile format: ${format}`)
+    }
+
+    // Read from the tiles, as minzoom and maxzoom are optional in the metadata
+    const [zoomRange] = database.exec("SELECT MIN(zoom_level), MAX(zoom_level) FROM tiles")
+    const [minZoom, maxZoom] = zoomRange?.values[0] ?? []
+    if (typeof minZoom !== "number" || typeof maxZoom !== "number") {
+      throw new Error("The MBTiles file has no tiles")
+    }
+
+    const statement = database.prepare(
+      "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?",
+    )
+
+    return {
+      name: metadata.name || file.name,
+      format,
+      minZoom,
+      maxZoom,
+      bounds: parseBounds(metadata.bounds),
+      attribution: metadata.attribution,
+      getTile(zoom, x, y) {
+        // Rows are counted from the bottom (TMS), map tiles from the top
+        statement.bind([zoom, x, 2 ** zoom - 1 - y])
+        const data = statement.step() ? statement.get()[0] : null
+        statement.reset()
+        return data instanceof Uint8Array ? data : null
+      },
+      close() {
+        statement.free()
+        database.close()
+      },
+    }
+  } catch (error) {
+    database.close()
+    throw error
+  }
+}
+
+// Leaflet layer drawing the tiles of an MBTiles file, scaled beyond the zoom range of the file
+export function createMbtilesLayer(L: any, source: MbtilesSource, options: Record<string, unknown> = {}): any {
+  const mimeType = TILE_MIME_TYPES[source.format]
+
+  const MbtilesLayer = L.GridLayer.extend({
+    createTile(coords: { x: number; y: number; z: number }, done: (error: Error | null, tile: HTMLElement) => void) {
+      const data = source.getTile(coords.z, coords.x, coords.y)
+      if (!data) {
+        // Outside the area of the file, left empty (Leaflet expects done to be called after returning the tile)
+        const empty = document.createElement("div")
+        setTimeout(() => done(null, empty))
+        return empty
+      }
+
+      const tile = document.createElement("img")
+      const url = URL.createObjectURL(new Blob([data], { type: mimeType }))
+      tile.alt = ""
+      tile.onload = () => {
+        URL.revokeObjectURL(url)
+        done(null, tile)
+      }
+      tile.onerror = () => {
+        URL.revokeObjectURL(url)
+        done(new Error(`Invalid tile ${coords.z}/${coords.x}/${coords.y}`), tile)
+      }
+      tile.src = url
+      return tile
+    },
+  })
+
+  return new MbtilesLayer({
+    minNativeZoom: source.minZoom,
+    maxNativeZoom: source.maxZoom,
+    // Leaflet shows attributions as HTML, the one of a file is shown as text
+    attribution: source.attribution?.replace(/[&<>"]/g, (character) => `&#${character.charCodeAt(0)};`),
+    ...options,
+  })
+}
@@ -0,0 +1,145 @@
+import type { BaseLayer } from "./base-layers"
+import type { GeoBounds } from "./geo"
+
+// Tiles downloaded ahead for use without a connection are kept in Cache Storage, under their URL. The service
+// worker (public/sw.js) answers the map's tile requests from this cache, so cached tiles show up in any tile layer.
+export const TILE_CACHE_NAME = "kml-viewer-tiles"
+
+// A download is refused above this, as it would take long, fill the storage quota and burden the tile server
+export const MAX_DOWNLOAD_TILES = 10000
+
+// Parallel requests, kept low to be fair to the tile servers
+const DOWNLOAD_CONCURRENCY = 4
+
+// Web Mercator doesn't reach the poles
+const MAX_LATITUDE = 85.0511287798
+
+export interface TileDownloadProgress {
+  done: number // Tiles handled so far, including the ones that were already cached and the ones that failed
+  total: number
+  failed: number
+}
+
+export function isOfflineCacheSupported(): boolean {
+  return typeof caches !== "undefined" && typeof navigator !== "undefined" && "serviceWorker" in navigator
+}
+
+// The service worker also keeps the pages and assets of the viewer, so it opens without a connection
+export async function registerServiceWorker(): Promise<void> {
+  if (!isOfflineCacheSupported()) return
+
+  try {
+    await navigator.serviceWorker.register("/sw.js")
+  } catch (error) {
+    console.warn("Could not register the service worker:", error)
+  }
+}
+
+// Deepest zoom whose tiles can be downloaded, tiles are scaled up beyond it
+export function getDownloadMaxZoom(baseLayer: BaseLayer): number {
+  return Math.min(baseLayer.maxDownloadZoom ?? baseLayer.maxNativeZoom, baseLayer.maxNativeZoom)
+}
+
+// Tiles covering the bounds at a zoom, as inclusive x and y ranges
+function getTileRange(bounds: GeoBounds, zoom: number) {
+  const tileCount = 2 ** zoom
+  const clampTile = (value: number) => Math.min(Math.max(value, 0), tileCount - 1)
+  const toTileX = (lng: number) => clampTile(Math.floor(((lng + 180) / 360) * tileCount))
+  const toTileY = (lat: number) => {
+    const radians = (Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE) * Math.PI) / 180
+    return clampTile(Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * tileCount))
+  }
+
+  const [[south, west], [north, east]] = bounds
+  return { minX: toTileX(west), maxX: toTileX(east), minY: toTileY(north), maxY: toTileY(south) }
+}
+
+export function countTiles(bounds: GeoBounds, minZoom: number, maxZoom: number): number {
+  let count = 0
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom)
+    count += (maxX - minX + 1) * (maxY - minY + 1)
+  }
+  return count
+}
+
+// The URL Leaflet requests for a tile (same subdomain and retina suffix), so the cached copy is found
+function getTileUrl(baseLayer: BaseLayer, zoom: number, x: number, y: number): string {
+  const subdomains = baseLayer.subdomains ?? "abc"
+  const values: Record<string, string | number> = {
+    s: subdomains[Math.abs(x + y) % subdomains.length],
+    z: zoom,
+    x,
+    y,
+    "-y": 2 ** zoom - 1 - y,
+    r: window.devicePixelRatio > 1 ? "@2x" : "",
+  }
+  return baseLayer.url.replace(/\{ *([\w_ -]+) *\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  )
+}
+
+/**
+ * Download the tiles of a base layer covering the bounds into the tile cache, skipping the ones already cached
+ * @param onProgress Called after each tile
+ * @param signal Stops the download, keeping the tiles downloaded so far
+ */
+export async function downloadTiles(
+  baseLayer: BaseLayer,
+  bounds: GeoBounds,
+  minZoom: number,
+  maxZoom: number,
+  onProgress: (progress: TileDownloadProgress) => void,
+  signal: AbortSignal,
+): Promise<TileDownloadProgress> {
+  const urls: string[] = []
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom)
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(getTileUrl(baseLayer, zoom, x, y))
+      }
+    }
+  }
+  if (urls.length > MAX_DOWNLOAD_TILES) {
+    throw new Error(`Too many tiles (${urls.length}), the limit is ${MAX_DOWNLOAD_TILES}`)
+  }
+
+  // Ask the browser not to evict the tiles when storage runs low
+  navigator.storage?.persist?.().catch((error) => console.warn("Could not make the storage persistent:", error))
+
+  const cache = await caches.open(TILE_CACHE_NAME)
+  const progress: TileDownloadProgress = { done: 0, total: urls.length, failed: 0 }
+  let nextIndex = 0
+
+  const downloadNext = async () => {
+    while (nextIndex < urls.length && !signal.aborted) {
+      const url = urls[nextIndex++]
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { signal })
+          if (!response.ok) throw new Error(`HTTP ${response.status}`)
+          await cache.put(url, response)
+        }
+      } catch {
+        if (signal.aborted) return
+        // Not logged, as a large area can have thousands of them; the dialog shows the total
+        progress.failed++
+      }
+      progress.done++
+      onProgress({ ...progress })
+    }
+  }
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, downloadNext))
+  return progress
+}
+
+export async function countCachedTiles(): Promise<number> {
+  const cache = await caches.open(TILE_CACHE_NAME)
+  return (await cache.keys()).length
+}
+
+export async function clearTileCache(): Promise<void> {
+  await caches.delete(TILE_CACHE_NAME)
+}
@@ -0,0 +1,9 @@
+import type { ParseDiagnostic } from "./types"
+
+// Position of a diagnostic in the parsed document
+export type DiagnosticLocation = Pick<ParseDiagnostic, "line" | "column" | "placemarkIndex" | "elementId">
+
+// Readable message of a caught error
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,66 @@
+import type { CsvImportOptions } from "./csv-parser"
+import type { ParsedFile, ParseWorkerRequest, ParseWorkerResponse } from "./parse-file"
+import type { KmlData, ParseProgress } from "./types"
+
+// A file being parsed in a worker
+export interface ParseJob {
+  promise: Promise<KmlData>
+  cancel(): void // Stops the worker and rejects the promise
+}
+
+// Parse a file off the main thread so large files don't freeze the page
+export function parseFileInWorker(
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  csvImport?: CsvImportOptions,
+): ParseJob {
+  const worker = new Worker(new URL("./parse-file.worker.ts", import.meta.url))
+  let rejectJob: (error: Error) => void = () => {}
+
+  const promise = new Promise<KmlData>((resolve, reject) => {
+    rejectJob = reject
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress)
+          break
+        case "result":
+          worker.terminate()
+          resolve(createResources(message))
+          break
+        case "error":
+          worker.terminate()
+          reject(new Error(message.message))
+          break
+      }
+    }
+
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || "Failed to parse the file"))
+    }
+
+    const request: ParseWorkerRequest = { file, csvImport }
+    worker.postMessage(request)
+  })
+
+  return {
+    promise,
+    cancel() {
+      worker.terminate()
+      rejectJob(new Error("Parsing cancelled"))
+    },
+  }
+}
+
+// Object URLs are created here, on the main thread, so they outlive the worker
+function createResources({ kmlData, images }: ParsedFile): KmlData {
+  if (!images) return kmlData
+
+  return {
+    ...kmlData,
+    resources: Object.fromEntries(Object.entries(images).map(([path, blob]) => [path, URL.createObjectURL(blob)])),
+  }
+}
@@ -0,0 +1,96 @@
+import { createCsvData, detectDelimiter, guessColumnMapping, parseCsv, type CsvImportOptions } from "./csv-parser"
+import { parseGeoJson } from "./geojson-parser"
+import { parseGpxStream } from "./gpx-parser"
+import { readShapefile } from "./shapefile-parser"
+import { parseKmlStream } from "./kml-parser"
+import { readKmz } from "./kmz-parser"
+import type { KmlData, ParseProgress } from "./types"
+
+// Supported file formats, detected from the file extension
+export type FileFormat = "kml" | "kmz" | "geojson" | "gpx" | "shapefile" | "csv"
+
+// Extensions accepted by the file input
+export const FILE_ACCEPT = ".kml,.kmz,.geojson,.json,.gpx,.zip,.csv,.tsv,.txt"
+
+// A parsed file, before object URLs are created for its images
+export interface ParsedFile {
+  kmlData: KmlData
+  images?: Record<string, Blob> // KMZ only: archive path -> image
+}
+
+// Messages exchanged with the parse worker
+export interface ParseWorkerRequest {
+  file: File
+  csvImport?: CsvImportOptions
+}
+
+export type ParseWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | ({ type: "result" } & ParsedFile)
+  | { type: "error"; message: string }
+
+// Whether the file has one of the accepted extensions, for files that don't come through the file input
+export function isSupportedFile(fileName: string): boolean {
+  const name = fileName.toLowerCase()
+  return FILE_ACCEPT.split(",").some((extension) => name.endsWith(extension))
+}
+
+// Wrap text pasted from the clipboard in a file named after its format, or return null if it isn't a known format
+export function createFileFromText(text: string): File | null {
+  const content = text.trim()
+  const start = content.slice(0, 1000)
+
+  if (/<kml[\s>]/.test(start)) {
+    return new File([content], "texto-colado.kml", { type: "application/vnd.google-earth.kml+xml" })
+  }
+  if (/<gpx[\s>]/.test(start)) {
+    return new File([content], "texto-colado.gpx", { type: "application/gpx+xml" })
+  }
+  if (content.startsWith("{") && /"type"\s*:/.test(start)) {
+    return new File([content], "texto-colado.geojson", { type: "application/geo+json" })
+  }
+  return null
+}
+
+export function getFileFormat(fileName: string): FileFormat {
+  const name = fileName.toLowerCase()
+  if (name.endsWith(".kmz")) return "kmz"
+  if (name.endsWith(".geojson") || name.endsWith(".json")) return "geojson"
+  if (name.endsWith(".gpx")) return "gpx"
+  if (name.endsWith(".zip")) return "shapefile" // Zipped .shp with its .dbf, .prj and .cpg
+  if (name.endsWith(".csv") || name.endsWith(".tsv") || name.endsWith(".txt")) return "csv"
+  return "kml"
+}
+
+// Parse a file, streaming it so progress can be reported and memory stays bounded
+// Runs in the parse worker, so it must not depend on the DOM
+// CSV files are read with the given delimiter and columns, or with the ones guessed from the header
+export async function readFile(
+  file: File,
+  onProgress?: (progress: ParseProgress) => void,
+  csvImport?: CsvImportOptions,
+): Promise<ParsedFile> {
+  switch (getFileFormat(file.name)) {
+    case "kmz":
+      return readKmz(file, onProgress)
+    case "geojson":
+      // JSON can't be parsed incrementally, so the file is read whole
+      return { kmlData: parseGeoJson(await file.text()) }
+    case "gpx":
+      return { kmlData: await parseGpxStream(file.stream(), file.size, onProgress) }
+    case "shapefile":
+      return { kmlData: await readShapefile(file, onProgress) }
+    case "csv": {
+      const text = await file.text()
+      if (csvImport) {
+        return { kmlData: createCsvData(parseCsv(text, csvImport.delimiter), csvImport.mapping) }
+      }
+
+      // The viewer asks for the column mapping first, this guesses it from the header
+      const rows = parseCsv(text, detectDelimiter(text))
+      return { kmlData: createCsvData(rows, guessColumnMapping(rows[0] || [])) }
+    }
+  }
+
+  return { kmlData: await parseKmlStream(file.stream(), file.size, { onProgress }) }
+}
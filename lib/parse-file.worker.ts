@@ -0,0 +1,17 @@
+import { readFile, type ParseWorkerRequest, type ParseWorkerResponse } from "./parse-file"
+import { getErrorMessage } from "./parse-diagnostics"
+
+// Each worker parses a single file and is terminated afterwards (or when the parse is cancelled)
+const worker = self as unknown as Worker
+
+const post = (message: ParseWorkerResponse) => worker.postMessage(message)
+
+worker.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  try {
+    const { file, csvImport } = event.data
+    const result = await readFile(file, (progress) => post({ type: "progress", progress }), csvImport)
+    post({ type: "result", ...result })
+  } catch (error) {
+    post({ type: "error", message: getErrorMessage(error) })
+  }
+}
@@ -0,0 +1,176 @@
+import type { CsvImportOptions } from "./csv-parser"
+import type { FileFormat } from "./parse-file"
+import type { MapView } from "./types"
+
+// A file opened in the viewer, kept in IndexedDB so it can be opened again (and the session restored) after a reload
+export interface RecentFile {
+  id: string
+  name: string
+  fileSize: number
+  fileType: FileFormat
+  elementCount: number
+  openedAt: number // Epoch milliseconds
+  csvImport?: CsvImportOptions // CSV only: the delimiter and columns chosen when importing
+}
+
+// What was on screen, restored when the viewer is opened again
+// Layers refer to recent files; the active layer and the selected element refer to positions in `layers`.
+export interface ViewerSession {
+  layers: { fileId: string; visible: boolean; opacity: number }[] // Top layer first
+  activeLayerIndex: number | null
+  selectedElement: { layerIndex: number; elementIndex: number } | null
+  mapView: MapView | null
+}
+
+// Oldest files are removed beyond this, as files can be large
+export const MAX_RECENT_FILES = 10
+
+const DATABASE_NAME = "kml-viewer"
+const DATABASE_VERSION = 2
+const FILES_STORE = "recentFiles" // RecentFile, by id
+const FILE_DATA_STORE = "recentFileData" // The File itself, by recent file id, so listing files doesn't read them
+const SESSION_STORE = "session"
+const SESSION_KEY = "last"
+const BASEMAP_STORE = "basemap" // Added in version 2
+const MBTILES_KEY = "mbtiles"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"))
+        return
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = (event) => {
+        const database = request.result
+        if (event.oldVersion < 1) {
+          database.createObjectStore(FILES_STORE, { keyPath: "id" })
+          database.createObjectStore(FILE_DATA_STORE)
+          database.createObjectStore(SESSION_STORE)
+        }
+        if (event.oldVersion < 2) {
+          database.createObjectStore(BASEMAP_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow retrying later, e.g. after the user closes another tab that blocked an upgrade
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"))
+  })
+}
+
+// The same file chosen again (same name, size and modification date) replaces its previous entry
+export function getRecentFileId(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+// Recent files, most recently opened first
+export async function listRecentFiles(): Promise<RecentFile[]> {
+  const database = await openDatabase()
+  const files = await requestToPromise<RecentFile[]>(
+    database.transaction(FILES_STORE).objectStore(FILES_STORE).getAll(),
+  )
+  return files.sort((a, b) => b.openedAt - a.openedAt)
+}
+
+// Store a file that was just opened, removing the oldest files beyond MAX_RECENT_FILES
+export async function saveRecentFile(
+  file: File,
+  fileType: FileFormat,
+  elementCount: number,
+  csvImport?: CsvImportOptions,
+): Promise<void> {
+  const database = await openDatabase()
+  const recentFile: RecentFile = {
+    id: getRecentFileId(file),
+    name: file.name,
+    fileSize: file.size,
+    fileType,
+    elementCount,
+    openedAt: Date.now(),
+    csvImport,
+  }
+
+  const files = (await listRecentFiles()).filter((existing) => existing.id !== recentFile.id)
+  const expired = files.slice(MAX_RECENT_FILES - 1)
+
+  const transaction = database.transaction([FILES_STORE, FILE_DATA_STORE], "readwrite")
+  transaction.objectStore(FILES_STORE).put(recentFile)
+  transaction.objectStore(FILE_DATA_STORE).put(file, recentFile.id)
+  expired.forEach(({ id }) => {
+    transaction.objectStore(FILES_STORE).delete(id)
+    transaction.objectStore(FILE_DATA_STORE).delete(id)
+  })
+  await transactionToPromise(transaction)
+}
+
+// The stored file, or null if it was removed
+export async function getRecentFile(fileId: string): Promise<File | null> {
+  const database = await openDatabase()
+  const file = await requestToPromise<File | undefined>(
+    database.transaction(FILE_DATA_STORE).objectStore(FILE_DATA_STORE).get(fileId),
+  )
+  return file ?? null
+}
+
+export async function removeRecentFile(fileId: string): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction([FILES_STORE, FILE_DATA_STORE], "readwrite")
+  transaction.objectStore(FILES_STORE).delete(fileId)
+  transaction.objectStore(FILE_DATA_STORE).delete(fileId)
+  await transactionToPromise(transaction)
+}
+
+export async function loadSession(): Promise<ViewerSession | null> {
+  const database = await openDatabase()
+  const session = await requestToPromise<ViewerSession | undefined>(
+    database.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY),
+  )
+  return session ?? null
+}
+
+export async function saveSession(session: ViewerSession): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction(SESSION_STORE, "readwrite")
+  transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY)
+  await transactionToPromise(transaction)
+}
+
+// The MBTiles file used as the base layer, kept so it is still available offline after a reload
+export async function loadMbtilesFile(): Promise<File | null> {
+  const database = await openDatabase()
+  const file = await requestToPromise<File | undefined>(
+    database.transaction(BASEMAP_STORE).objectStore(BASEMAP_STORE).get(MBTILES_KEY),
+  )
+  return file ?? null
+}
+
+export async function saveMbtilesFile(file: File): Promise<void> {
+  const database = await openDatabase()
+  const transaction = database.transaction(BASEMAP_STORE, "readwrite")
+  transaction.objectStore(BASEMAP_STORE).put(file, MBTILES_KEY)
+  await transactionToPromise(transaction)
+}
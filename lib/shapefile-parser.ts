@@ -0,0 +1,442 @@
+import JSZip from "jszip"
+import proj4 from "proj4"
+import { createContentId, createUniqueIds } from "./element-ids"
+import { calculateGeometryMetadata } from "./geo"
+import { getErrorMessage } from "./parse-diagnostics"
+import type { KmlData, KmlElement, KmlFolder, KmlGeometry, ParseDiagnostic, ParseProgress } from "./types"
+
+// Records between two progress reports
+const PROGRESS_RECORDS = 1000
+
+// DBF fields used as the element name, the attributes are all kept in extendedData
+const NAME_FIELDS = ["name", "nome", "label", "title", "titulo"]
+
+// Shape types of the .shp format (Z and M variants share the layout of the base type, plus extra values)
+const SHAPE_NULL = 0
+const POINT_TYPES = [1, 11, 21]
+const POLYLINE_TYPES = [3, 13, 23]
+const POLYGON_TYPES = [5, 15, 25]
+const MULTIPOINT_TYPES = [8, 18, 28]
+const Z_TYPES = [11, 13, 15, 18]
+
+// Point reprojection from the layer's coordinate system, or undefined when it is already WGS84
+type Projection = ((coordinate: number[]) => number[]) | undefined
+
+/**
+ * Read a zipped shapefile
+ * Every .shp in the archive becomes a layer, read with the .dbf attributes and .prj coordinate system of the same name.
+ * Layers are put in folders when the archive has more than one.
+ * @param file The ZIP file
+ * @param onProgress Called while the records are read
+ * @returns Parsed data, reprojected to WGS84
+ */
+export async function readShapefile(file: File, onProgress?: (progress: ParseProgress) => void): Promise<KmlData> {
+  let zipContents: JSZip
+  try {
+    zipContents = await new JSZip().loadAsync(file)
+  } catch {
+    throw new Error("Invalid shapefile: Not a valid ZIP archive")
+  }
+
+  const shpFiles = Object.keys(zipContents.files).filter(
+    (filename) => filename.toLowerCase().endsWith(".shp") && !zipContents.files[filename].dir,
+  )
+  if (shpFiles.length === 0) {
+    throw new Error("No shapefile (.shp) found in the ZIP archive")
+  }
+
+  const diagnostics: ParseDiagnostic[] = []
+  const folders: KmlFolder[] = []
+  const elements: KmlElement[] = []
+  const uniqueId = createUniqueIds()
+  const layers: { name: string; shp: ArrayBuffer; dbf?: ArrayBuffer; prj?: string; cpg?: string }[] = []
+
+  // Read every layer first, so progress can cover all of them
+  let totalBytes = 0
+  for (const shpFile of shpFiles) {
+    const basePath = shpFile.substring(0, shpFile.length - ".shp".length)
+    const layer = {
+      name: basePath.split("/").pop() || basePath,
+      shp: await zipContents.file(shpFile)!.async("arraybuffer"),
+      dbf: await findSidecarFile(zipContents, basePath, ".dbf")?.async("arraybuffer"),
+      prj: await findSidecarFile(zipContents, basePath, ".prj")?.async("string"),
+      cpg: await findSidecarFile(zipContents, basePath, ".cpg")?.async("string"),
+    }
+    totalBytes += layer.shp.byteLength
+    layers.push(layer)
+  }
+
+  let bytesRead = 0
+  for (const layer of layers) {
+    let folderId: string | undefined
+    if (layers.length > 1) {
+      folderId = createContentId("folder", [layer.name])
+      folders.push({ id: folderId, name: layer.name, visibility: true, open: false, children: [] })
+    }
+
+    if (!layer.dbf) {
+      diagnostics.push({ severity: "warning", source: layer.name, message: "Missing .dbf file, attributes not loaded" })
+    }
+
+    let projection: Projection
+    if (layer.prj) {
+      try {
+        projection = createProjection(layer.prj)
+      } catch (error) {
+        throw new Error(`Unsupported coordinate system in ${layer.name}.prj: ${getErrorMessage(error)}`)
+      }
+    } else {
+      diagnostics.push({
+        severity: "warning",
+        source: layer.name,
+        message: "Missing .prj file, coordinates are assumed to be WGS84 longitude/latitude",
+      })
+    }
+
+    const layerDiagnostics: ParseDiagnostic[] = []
+    const records = layer.dbf ? readDbf(layer.dbf, layer.cpg) : []
+    // Skipped records are reported once per layer, as it can happen to every record (e.g. with a wrong .prj)
+    const emptyRecords: number[] = []
+    const outOfRangeRecords: number[] = []
+    readShp(layer.shp, (geometry, index, offset) => {
+      if (index % PROGRESS_RECORDS === 0) {
+        onProgress?.({ bytesRead: bytesRead + offset, totalBytes, placemarks: elements.length })
+      }
+
+      if (!geometry) {
+        emptyRecords.push(index + 1)
+        return
+      }
+
+      // Coordinates outside WGS84 mean a missing or wrong .prj
+      const projected = projectGeometry(geometry, projection)
+      if (!isGeometryInRange(projected)) {
+        outOfRangeRecords.push(index + 1)
+        return
+      }
+
+      const element = createElement(projected, records[index])
+      // Layers of an archive can hold identical records, so the folder is part of the id
+      elements.push({ ...element, id: uniqueId(folderId ? `${folderId}/${element.id}` : element.id), folderId })
+    }, layerDiagnostics)
+    bytesRead += layer.shp.byteLength
+
+    if (emptyRecords.length > 0) {
+      layerDiagnostics.push({ severity: "info", message: `${describeRecords(emptyRecords)} no shape, skipped` })
+    }
+    if (outOfRangeRecords.length > 0) {
+      layerDiagnostics.push({
+        severity: "warning",
+        message: `${describeRecords(outOfRangeRecords)} coordinates outside longitude/latitude range, skipped`,
+      })
+    }
+
+    diagnostics.push(...layerDiagnostics.map((diagnostic) => ({ source: layer.name, ...diagnostic })))
+  }
+
+  if (elements.length === 0) {
+    diagnostics.push({ severity: "warning", message: "No shapes found in the file" })
+  }
+
+  return {
+    name: layers.length === 1 ? layers[0].name : file.name.replace(/\.zip$/i, ""),
+    folders,
+    elements,
+    networkLinks: [],
+    diagnostics,
+  }
+}
+
+// .dbf, .prj and .cpg files share the name of the .shp, possibly in a different case
+function findSidecarFile(zip: JSZip, basePath: string, extension: string): JSZip.JSZipObject | null {
+  const path = (basePath + extension).toLowerCase()
+  const match = Object.keys(zip.files).find((name) => name.toLowerCase() === path)
+  return match ? zip.file(match) : null
+}
+
+// Build a converter from the .prj WKT to WGS84
+function createProjection(wkt: string): Projection {
+  const converter = proj4(wkt.trim(), "WGS84")
+  return (coordinate) => {
+    const [x, y] = converter.forward([coordinate[0], coordinate[1]])
+    return [x, y, coordinate[2]]
+  }
+}
+
+function projectGeometry(geometry: KmlGeometry, projection: Projection): KmlGeometry {
+  if (!projection) return geometry
+
+  switch (geometry.type) {
+    case "Point":
+      return {
+        ...geometry,
+        coordinates: projection(geometry.coordinates as unknown as number[]) as unknown as number[][],
+      }
+    case "Polygon": {
+      const rings = geometry.coordinates as unknown as number[][][]
+      return { ...geometry, coordinates: rings.map((ring) => ring.map(projection)) as unknown as number[][] }
+    }
+    case "MultiGeometry":
+      return { ...geometry, geometries: geometry.geometries?.map((child) => projectGeometry(child, projection)) }
+    default:
+      return { ...geometry, coordinates: geometry.coordinates.map(projection) }
+  }
+}
+
+// Subject of a message about skipped records, e.g. "Record 3 has" or "120 records (from record 3) have"
+function describeRecords(recordNumbers: number[]): string {
+  return recordNumbers.length === 1
+    ? `Record ${recordNumbers[0]} has`
+    : `${recordNumbers.length} records (from record ${recordNumbers[0]}) have`
+}
+
+function createElement(geometry: KmlGeometry, attributes: Record<string, string> | undefined): KmlElement {
+  const nameField = attributes && Object.keys(attributes).find((field) => NAME_FIELDS.includes(field.toLowerCase()))
+
+  // Records have no ids, so they are identified by their attributes and shape
+  return {
+    id: createContentId("record", [attributes ?? null, geometry]),
+    type: geometry.type,
+    name: nameField ? attributes[nameField] || undefined : undefined,
+    coordinates: geometry.coordinates,
+    geometries: geometry.geometries,
+    extendedData: attributes && Object.keys(attributes).length > 0 ? attributes : undefined,
+    metadata: calculateGeometryMetadata(geometry),
+  }
+}
+
+function isGeometryInRange(geometry: KmlGeometry): boolean {
+  const isValid = ([lng, lat]: number[]) =>
+    isFinite(lng) && isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+
+  switch (geometry.type) {
+    case "Point":
+      return isValid(geometry.coordinates as unknown as number[])
+    case "Polygon":
+      return (geometry.coordinates as unknown as number[][][]).every((ring) => ring.every(isValid))
+    case "MultiGeometry":
+      return (geometry.geometries || []).every(isGeometryInRange)
+    default:
+      return geometry.coordinates.every(isValid)
+  }
+}
+
+// Read the records of a .shp file, calling `onRecord` with each shape (null for null shapes) and its byte offset
+function readShp(
+  buffer: ArrayBuffer,
+  onRecord: (geometry: KmlGeometry | null, index: number, offset: number) => void,
+  diagnostics: ParseDiagnostic[],
+) {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 100 || view.getInt32(0) !== 9994) {
+    throw new Error("Invalid shapefile: Not a .shp file")
+  }
+
+  let offset = 100
+  let index = 0
+  while (offset + 8 <= buffer.byteLength) {
+    // Record headers are big-endian, record contents little-endian
+    const contentLength = view.getInt32(offset + 4) * 2
+    const contentOffset = offset + 8
+    if (contentLength < 4 || contentOffset + contentLength > buffer.byteLength) {
+      diagnostics.push({
+        severity: "error",
+        message: `Record ${index + 1} is truncated, the rest of the file is skipped`,
+      })
+      break
+    }
+
+    let geometry: KmlGeometry | null = null
+    try {
+      geometry = readShape(view, contentOffset)
+    } catch (error) {
+      diagnostics.push({ severity: "warning", message: `Record ${index + 1}: ${getErrorMessage(error)}` })
+    }
+    onRecord(geometry, index, offset)
+
+    offset = contentOffset + contentLength
+    index++
+  }
+}
+
+function readShape(view: DataView, offset: number): KmlGeometry | null {
+  const shapeType = view.getInt32(offset, true)
+  if (shapeType === SHAPE_NULL) return null
+
+  if (POINT_TYPES.includes(shapeType)) {
+    const coordinate = [view.getFloat64(offset + 4, true), view.getFloat64(offset + 12, true)]
+    coordinate.push(shapeType === 11 ? view.getFloat64(offset + 20, true) : 0)
+    return { type: "Point", coordinates: coordinate as unknown as number[][] }
+  }
+
+  if (MULTIPOINT_TYPES.includes(shapeType)) {
+    const numPoints = view.getInt32(offset + 36, true)
+    const points = readPoints(view, offset + 40, numPoints, Z_TYPES.includes(shapeType))
+    const geometries: KmlGeometry[] = points.map((point) => ({
+      type: "Point",
+      coordinates: point as unknown as number[][],
+    }))
+    return geometries.length === 1 ? geometries[0] : { type: "MultiGeometry", coordinates: [], geometries }
+  }
+
+  if (POLYLINE_TYPES.includes(shapeType) || POLYGON_TYPES.includes(shapeType)) {
+    const numParts = view.getInt32(offset + 36, true)
+    const numPoints = view.getInt32(offset + 40, true)
+    const partsOffset = offset + 44
+    const points = readPoints(view, partsOffset + numParts * 4, numPoints, Z_TYPES.includes(shapeType))
+
+    const parts: number[][][] = []
+    for (let i = 0; i < numParts; i++) {
+      const start = view.getInt32(partsOffset + i * 4, true)
+      const end = i + 1 < numParts ? view.getInt32(partsOffset + (i + 1) * 4, true) : numPoints
+      if (end > start) parts.push(points.slice(start, end))
+    }
+
+    if (POLYLINE_TYPES.includes(shapeType)) {
+      const lines: KmlGeometry[] = parts.map((part) => ({ type: "LineString", coordinates: part }))
+      if (lines.length === 0) return null
+      return lines.length === 1 ? lines[0] : { type: "MultiGeometry", coordinates: [], geometries: lines }
+    }
+
+    const polygons = groupRings(parts).map(
+      (rings): KmlGeometry => ({ type: "Polygon", coordinates: rings as unknown as number[][] }),
+    )
+    if (polygons.length === 0) return null
+    return polygons.length === 1 ? polygons[0] : { type: "MultiGeometry", coordinates: [], geometries: polygons }
+  }
+
+  throw new Error(`Unsupported shape type ${shapeType}`)
+}
+
+// Read `count` XY points, followed by their Z values for the Z shape types
+function readPoints(view: DataView, offset: number, count: number, hasZ: boolean): number[][] {
+  const points: number[][] = []
+  for (let i = 0; i < count; i++) {
+    points.push([view.getFloat64(offset + i * 16, true), view.getFloat64(offset + i * 16 + 8, true), 0])
+  }
+
+  if (hasZ) {
+    // Z range (2 doubles), then one Z per point
+    const zOffset = offset + count * 16 + 16
+    points.forEach((point, i) => {
+      point[2] = view.getFloat64(zOffset + i * 8, true)
+    })
+  }
+
+  return points
+}
+
+// Group polygon rings into polygons: outer rings are clockwise, holes counter-clockwise and inside their outer ring
+function groupRings(rings: number[][][]): number[][][][] {
+  const polygons: number[][][][] = []
+  const holes: number[][][] = []
+
+  rings.forEach((ring) => {
+    if (getSignedArea(ring) <= 0) {
+      polygons.push([ring])
+    } else {
+      holes.push(ring)
+    }
+  })
+
+  // Rings written in the wrong orientation are still drawn, as outer rings
+  if (polygons.length === 0) {
+    return holes.map((ring) => [ring])
+  }
+
+  holes.forEach((hole) => {
+    const container = polygons.find((polygon) => isPointInRing(hole[0], polygon[0]))
+    ;(container || polygons[polygons.length - 1]).push(hole)
+  })
+
+  return polygons
+}
+
+// Shoelace formula: negative for clockwise rings
+function getSignedArea(ring: number[][]): number {
+  let area = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1])
+  }
+  return area / 2
+}
+
+function isPointInRing([x, y]: number[], ring: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Read the attribute records of a .dbf file, as trimmed strings keyed by field name
+function readDbf(buffer: ArrayBuffer, codePage?: string): Record<string, string>[] {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const numRecords = view.getUint32(4, true)
+  const headerLength = view.getUint16(8, true)
+  const recordLength = view.getUint16(10, true)
+  const decode = createDbfDecoder(codePage)
+
+  // Field descriptors are 32 bytes each, terminated by 0x0D
+  const fields: { name: string; length: number }[] = []
+  for (let offset = 32; offset + 32 <= headerLength && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11)
+    const nameEnd = nameBytes.indexOf(0)
+    fields.push({
+      name: decode(nameBytes.subarray(0, nameEnd >= 0 ? nameEnd : 11)).trim(),
+      length: bytes[offset + 16],
+    })
+  }
+
+  const records: Record<string, string>[] = []
+  for (let i = 0; i < numRecords; i++) {
+    const recordOffset = headerLength + i * recordLength
+    if (recordOffset + recordLength > buffer.byteLength) break
+
+    // The first byte is the deletion flag; deleted records still have a shape, so they keep their index
+    const record: Record<string, string> = {}
+    let fieldOffset = recordOffset + 1
+    fields.forEach((field) => {
+      const value = decode(bytes.subarray(fieldOffset, fieldOffset + field.length)).trim()
+      if (value) record[field.name] = value
+      fieldOffset += field.length
+    })
+    records.push(record)
+  }
+
+  return records
+}
+
+// Decode DBF text with the .cpg code page; without one, UTF-8 is tried before falling back to Windows-1252
+function createDbfDecoder(codePage?: string): (bytes: Uint8Array) => string {
+  const label = codePage?.trim().toLowerCase()
+  if (label) {
+    try {
+      // .cpg files often hold a bare code page number ("1252", "88591")
+      const encoding = label.startsWith("8859")
+        ? `iso-8859-${label.substring(4)}`
+        : /^\d+$/.test(label)
+          ? `windows-${label}`
+          : label
+      const decoder = new TextDecoder(encoding)
+      return (bytes) => decoder.decode(bytes)
+    } catch {
+      // Unknown code page, guess below
+    }
+  }
+
+  const utf8Decoder = new TextDecoder("utf-8", { fatal: true })
+  const fallbackDecoder = new TextDecoder("windows-1252")
+  return (bytes) => {
+    try {
+      return utf8Decoder.decode(bytes)
+    } catch {
+      return fallbackDecoder.decode(bytes)
+    }
+  }
+}
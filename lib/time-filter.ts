@@ -0,0 +1,39 @@
+import type { KmlElement, KmlTimeSpan } from "./types"
+
+// Closed time range in epoch milliseconds
+export type TimeRange = Required<KmlTimeSpan>
+
+// Parse a KML dateTime (also accepts the gYear and gYearMonth forms, e.g. "2020" or "2020-05")
+export function parseKmlTime(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value.trim())
+  return isNaN(time) ? undefined : time
+}
+
+// Overall time range covered by the elements that have time, or undefined if none do
+export function getTimeExtent(elements: KmlElement[]): TimeRange | undefined {
+  let begin = Infinity
+  let end = -Infinity
+
+  elements.forEach((element) => {
+    const { time } = element
+    if (!time) return
+    ;[time.begin, time.end].forEach((value) => {
+      if (value === undefined) return
+      begin = Math.min(begin, value)
+      end = Math.max(end, value)
+    })
+  })
+
+  return begin <= end ? { begin, end } : undefined
+}
+
+// Elements without time are always shown, otherwise their span must overlap the range
+export function isElementInTimeRange(element: KmlElement, range: TimeRange): boolean {
+  const time: KmlTimeSpan | undefined = element.time
+  if (!time) return true
+
+  const begin = time.begin ?? -Infinity
+  const end = time.end ?? Infinity
+  return begin <= range.end && end >= range.begin
+}
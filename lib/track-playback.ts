@@ -0,0 +1,102 @@
+import { calculateDistance } from "./geo"
+import type { KmlGeometry } from "./types"
+
+// Precomputed per-vertex data for animating a track
+export interface TrackProfile {
+  coordinates: number[][]
+  timestamps: number[] // In time order
+  cumulativeDistances: number[] // km from the first vertex
+  gaps: boolean[] // Whether the track has no data between a vertex and the next one (between segments)
+  startTime: number
+  endTime: number
+}
+
+// State of the playback marker at a given time
+export interface TrackPosition {
+  latLng: [number, number]
+  elapsed: number // ms since the start of the track
+  distance: number // km travelled so far
+  speed: number // km/h over the current segment
+}
+
+// Only the timed segments of a gx:MultiTrack or GPX track are played, segments without times are lines
+// Vertices are sorted by time, as nothing guarantees the file lists them in order.
+export function buildTrackProfile(track: Pick<KmlGeometry, "coordinates" | "timestamps" | "geometries">): TrackProfile {
+  const segments = track.geometries ? track.geometries.filter((segment) => segment.type === "Track") : [track]
+  const vertices = segments
+    .flatMap((segment, segmentIndex) =>
+      (segment.timestamps || []).map((time, index) => ({ coordinate: segment.coordinates[index], time, segmentIndex })),
+    )
+    .filter((vertex) => vertex.coordinate && isFinite(vertex.time))
+    .sort((a, b) => a.time - b.time)
+
+  const cumulativeDistances = vertices.length > 0 ? [0] : []
+  const gaps: boolean[] = []
+  for (let i = 1; i < vertices.length; i++) {
+    const isGap = vertices[i].segmentIndex !== vertices[i - 1].segmentIndex
+    const [lng1, lat1] = vertices[i - 1].coordinate
+    const [lng2, lat2] = vertices[i].coordinate
+    gaps.push(isGap)
+    cumulativeDistances.push(cumulativeDistances[i - 1] + (isGap ? 0 : calculateDistance(lat1, lng1, lat2, lng2)))
+  }
+
+  return {
+    coordinates: vertices.map((vertex) => vertex.coordinate),
+    timestamps: vertices.map((vertex) => vertex.time),
+    cumulativeDistances,
+    gaps,
+    startTime: vertices[0]?.time ?? 0,
+    endTime: vertices[vertices.length - 1]?.time ?? 0,
+  }
+}
+
+// Interpolate the position along the track at an absolute time (epoch ms)
+export function getTrackPositionAt(profile: TrackProfile, time: number): TrackPosition {
+  const { coordinates, timestamps, cumulativeDistances, startTime } = profile
+  const lastIndex = coordinates.length - 1
+  const clampedTime = Math.min(Math.max(time, startTime), profile.endTime)
+
+  // Binary search for the segment [index, index + 1] containing the time
+  let low = 0
+  let high = lastIndex
+  while (low < high - 1) {
+    const mid = (low + high) >> 1
+    if (timestamps[mid] <= clampedTime) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+
+  const index = Math.min(low, Math.max(lastIndex - 1, 0))
+  const next = Math.min(index + 1, lastIndex)
+  // Across a gap between segments the marker stays at the end of the first one
+  const isGap = profile.gaps[index] ?? false
+  const segmentDuration = isGap ? 0 : timestamps[next] - timestamps[index]
+  let fraction = 1
+  if (isGap) {
+    fraction = clampedTime >= timestamps[next] ? 1 : 0
+  } else if (segmentDuration > 0) {
+    fraction = Math.min(Math.max((clampedTime - timestamps[index]) / segmentDuration, 0), 1)
+  }
+
+  const [lng1, lat1] = coordinates[index]
+  const [lng2, lat2] = coordinates[next]
+  const segmentLength = cumulativeDistances[next] - cumulativeDistances[index]
+
+  return {
+    latLng: [lat1 + (lat2 - lat1) * fraction, lng1 + (lng2 - lng1) * fraction],
+    elapsed: clampedTime - startTime,
+    distance: cumulativeDistances[index] + segmentLength * fraction,
+    speed: segmentDuration > 0 ? segmentLength / (segmentDuration / 3600000) : 0,
+  }
+}
+
+// Format a duration in ms as hh:mm:ss
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map((value) => value.toString().padStart(2, "0")).join(":")
+}
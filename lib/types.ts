@@ -1,5 +1,12 @@
 // KML Element Types
-export type KmlElementType = "Point" | "LineString" | "Polygon" | "MultiGeometry" | "GroundOverlay" | "NetworkLink"
+export type KmlElementType =
+  | "Point"
+  | "LineString"
+  | "Polygon"
+  | "MultiGeometry"
+  | "Track"
+  | "GroundOverlay"
+  | "NetworkLink"
 
 // KML Style
 export interface KmlStyle {
@@ -14,6 +21,65 @@ export interface KmlStyle {
   strokeOpacity?: number
   iconUrl?: string
   iconScale?: number
+  iconColor?: string // IconStyle <color>, used for the fallback marker when the image is missing
+  iconHeading?: number // Degrees clockwise from north
+  iconHotSpot?: KmlHotSpot
+}
+
+// IconStyle hotSpot: the point of the icon anchored to the placemark position (y is measured from the bottom)
+export interface KmlHotSpot {
+  x: number
+  y: number
+  xunits: "fraction" | "pixels" | "insetPixels"
+  yunits: "fraction" | "pixels" | "insetPixels"
+}
+
+// KML Geometry (a single geometry, or the child of a MultiGeometry)
+export interface KmlGeometry {
+  type: "Point" | "LineString" | "Polygon" | "MultiGeometry" | "Track"
+  coordinates: number[][] // Same layout as KmlElement.coordinates, empty for MultiGeometry
+  geometries?: KmlGeometry[] // For MultiGeometry: child geometries, which may themselves be MultiGeometry
+  timestamps?: number[] // For Track: same as KmlElement.timestamps
+}
+
+// GroundOverlay image placement
+export interface KmlGroundOverlay {
+  href: string // Icon href as written in the KML, resolved against KmlData.resources for KMZ files
+  latLonBox?: {
+    north: number
+    south: number
+    east: number
+    west: number
+    rotation: number // Degrees counter-clockwise around the box center
+  }
+  latLonQuad?: number[][] // gx:LatLonQuad corners [lng, lat], counter-clockwise from lower-left
+  opacity?: number // From the alpha channel of <color>
+}
+
+// Time range in epoch milliseconds; a missing bound is open-ended
+export interface KmlTimeSpan {
+  begin?: number
+  end?: number
+}
+
+// NetworkLink and what happened when following it
+export interface KmlNetworkLink {
+  id: string
+  name?: string
+  href: string // Relative hrefs are archive paths, resolved against the linking file's directory
+  folderId?: string // Folder containing the link
+  status: "resolved" | "external" | "missing" | "cycle" | "depth-limit"
+}
+
+// KML Folder (Folder or nested Document)
+export interface KmlFolder {
+  id: string
+  name?: string
+  description?: string
+  visibility: boolean // <visibility>, defaults to true
+  open: boolean // <open>, defaults to false
+  parentId?: string // Undefined for top-level folders
+  children: KmlFolder[]
 }
 
 // KML Element
@@ -22,18 +88,72 @@ export interface KmlElement {
   type: KmlElementType
   name?: string
   description?: string
+  folderId?: string // Parent folder id, undefined for elements at the document root
   coordinates: number[][] // For Point: [lng, lat, alt?], For LineString: [[lng, lat, alt?], ...], For Polygon: [[[lng, lat, alt?], ...], ...]
+  geometries?: KmlGeometry[] // For MultiGeometry: child geometries (coordinates is empty). For gx:MultiTrack: the track segments
+  timestamps?: number[] // For Track: epoch milliseconds of each coordinate
+  time?: KmlTimeSpan // From TimeStamp (begin === end) or TimeSpan, or the first/last timestamps of a Track
+  overlay?: KmlGroundOverlay // For GroundOverlay: image placement (coordinates holds the 4 corners)
   style?: KmlStyle
   extendedData?: Record<string, string>
   metadata?: {
-    length?: number // For LineString: length in km
-    area?: number // For Polygon: area in km²
+    length?: number // For LineString, Track and MultiGeometry: length in km
+    area?: number // For Polygon and MultiGeometry: area in km² (holes excluded)
   }
 }
 
+// Problem found while reading a file, shown to the user instead of being logged
+export interface ParseDiagnostic {
+  severity: "error" | "warning" | "info"
+  message: string
+  source?: string // KMZ only: archive path of the KML file the problem was found in
+  line?: number // 1-based position in the source text, when known
+  column?: number
+  placemarkIndex?: number // 0-based index of the Placemark in its document
+  elementId?: string // Element that was still loaded despite the problem
+}
+
+// Progress of a file being parsed
+export interface ParseProgress {
+  bytesRead: number
+  totalBytes: number
+  placemarks: number // Placemarks parsed so far
+}
+
+// Center ([lat, lng]) and zoom of the map
+export interface MapView {
+  center: [number, number]
+  zoom: number
+}
+
 // KML Data
 export interface KmlData {
   name?: string
   description?: string
+  folders: KmlFolder[] // Top-level folders, nested folders are in `children`
   elements: KmlElement[]
+  networkLinks: KmlNetworkLink[]
+  timeExtent?: Required<KmlTimeSpan> // Overall time range of the elements that have time, if any
+  resources?: Record<string, string> // KMZ only: archive path -> object URL of embedded files
+  diagnostics: ParseDiagnostic[]
+}
+
+// GeoJSON (RFC 7946) objects, as read and written by the GeoJSON parser and writer
+export interface GeoJsonGeometry {
+  type: string
+  coordinates?: unknown // Positions nested according to the geometry type
+  geometries?: GeoJsonGeometry[] // For GeometryCollection
+}
+
+export interface GeoJsonFeature {
+  type: "Feature"
+  id?: string | number
+  geometry: GeoJsonGeometry | null
+  properties: Record<string, unknown> | null
+}
+
+export interface GeoJsonFeatureCollection {
+  type: "FeatureCollection"
+  name?: string // Not part of RFC 7946, but written by GDAL and QGIS
+  features: GeoJsonFeature[]
 }
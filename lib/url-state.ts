@@ -0,0 +1,69 @@
+import { CUSTOM_BASE_LAYER, isValidBaseLayerSelection, type BaseLayerSelection } from "./base-layers"
+import type { TimeRange } from "./time-filter"
+import type { MapView } from "./types"
+
+// Viewer state shared through links, kept in the URL hash so it changes without navigating or reaching the server
+// e.g. #map=12/-23.55052/-46.63331&element=rotas.kml/escola-1&q=escola&type=Point&time=2024-01-01T00:00:00.000Z/2024-02-01T00:00:00.000Z
+// A custom base layer is linked with its tile URL: #base=custom&tiles=https://exemplo.com/{z}/{x}/{y}.png
+// Files are not part of the link: the linked element is selected once the same file is loaded.
+export interface UrlState {
+  view?: MapView
+  element?: string // Element id
+  search?: string
+  type?: string // Element type the list is filtered by
+  time?: TimeRange
+  baseLayer?: BaseLayerSelection
+}
+
+// Parse a location hash, ignoring values that are missing or malformed
+export function parseUrlState(hash: string): UrlState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""))
+  const state: UrlState = {}
+
+  const [zoom, lat, lng] = (params.get("map") || "").split("/").map(Number)
+  if ([zoom, lat, lng].every(Number.isFinite) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    state.view = { center: [lat, lng], zoom }
+  }
+
+  const [begin, end] = (params.get("time") || "").split("/").map((value) => Date.parse(value))
+  if (Number.isFinite(begin) && Number.isFinite(end) && begin <= end) {
+    state.time = { begin, end }
+  }
+
+  const baseLayer = { id: params.get("base") || "", customUrl: params.get("tiles") || undefined }
+  if (isValidBaseLayerSelection(baseLayer)) {
+    state.baseLayer = baseLayer.id === CUSTOM_BASE_LAYER ? baseLayer : { id: baseLayer.id }
+  }
+
+  state.element = params.get("element") || undefined
+  state.search = params.get("q") || undefined
+  state.type = params.get("type") || undefined
+  return state
+}
+
+// Format the state as a location hash, or an empty string when there is nothing to share
+export function formatUrlState(state: UrlState): string {
+  const params: [string, string][] = []
+
+  if (state.view) {
+    const [lat, lng] = state.view.center
+    params.push(["map", `${Math.round(state.view.zoom * 100) / 100}/${lat.toFixed(5)}/${lng.toFixed(5)}`])
+  }
+  if (state.element) params.push(["element", state.element])
+  if (state.search) params.push(["q", state.search])
+  if (state.type) params.push(["type", state.type])
+  if (state.time) {
+    params.push(["time", `${new Date(state.time.begin).toISOString()}/${new Date(state.time.end).toISOString()}`])
+  }
+  if (state.baseLayer) {
+    params.push(["base", state.baseLayer.id])
+    if (state.baseLayer.id === CUSTOM_BASE_LAYER && state.baseLayer.customUrl) {
+      params.push(["tiles", state.baseLayer.customUrl])
+    }
+  }
+
+  if (params.length === 0) return ""
+  // Slashes and colons are allowed in a fragment, so they are kept readable
+  const encode = (value: string) => encodeURIComponent(value).replace(/%2F/g, "/").replace(/%3A/g, ":")
+  return `#${params.map(([key, value]) => `${key}=${encode(value)}`).join("&")}`
+}
@@ -0,0 +1,133 @@
+import type { KmlGeometry } from "./types"
+
+// Parse a WKT geometry (optionally prefixed with SRID=...;) into a KmlGeometry
+// Multi* geometries and GEOMETRYCOLLECTION become MultiGeometry. Returns null for EMPTY or malformed geometries.
+export function parseWkt(wkt: string): KmlGeometry | null {
+  const tokens = wkt
+    .replace(/^\s*SRID=\d+;/i, "")
+    .match(/[A-Za-z]+|\(|\)|,|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g)
+  if (!tokens) return null
+
+  const reader: TokenReader = { tokens, index: 0, isMeasured: false }
+  try {
+    const geometry = readGeometry(reader)
+    return reader.index === tokens.length ? geometry : null
+  } catch {
+    return null
+  }
+}
+
+interface TokenReader {
+  tokens: string[]
+  index: number
+  isMeasured: boolean // "M" geometries have a measure, not an altitude, as third number
+}
+
+function next(reader: TokenReader): string {
+  const token = reader.tokens[reader.index++]
+  if (token === undefined) throw new Error("Unexpected end of WKT")
+  return token
+}
+
+function expect(reader: TokenReader, token: string) {
+  if (next(reader) !== token) throw new Error(`Expected ${token}`)
+}
+
+function peek(reader: TokenReader): string | undefined {
+  return reader.tokens[reader.index]
+}
+
+function readGeometry(reader: TokenReader): KmlGeometry | null {
+  const type = next(reader).toUpperCase()
+
+  // Dimension flags ("POINT Z", "LINESTRING ZM") change how many numbers a position has
+  reader.isMeasured = false
+  if (/^(Z|M|ZM)$/i.test(peek(reader) || "")) {
+    reader.isMeasured = next(reader).toUpperCase() === "M"
+  }
+
+  if (peek(reader)?.toUpperCase() === "EMPTY") {
+    reader.index++
+    return null
+  }
+
+  switch (type) {
+    case "POINT": {
+      expect(reader, "(")
+      const position = readPosition(reader)
+      expect(reader, ")")
+      return { type: "Point", coordinates: position as unknown as number[][] }
+    }
+
+    case "LINESTRING":
+      return { type: "LineString", coordinates: readPositions(reader) }
+
+    case "POLYGON":
+      return { type: "Polygon", coordinates: readList(reader, readPositions) as unknown as number[][] }
+
+    case "MULTIPOINT":
+      // Both "MULTIPOINT (1 2, 3 4)" and "MULTIPOINT ((1 2), (3 4))" are valid
+      return createMultiGeometry(
+        readList(reader, (listReader) => {
+          if (peek(listReader) !== "(") {
+            return { type: "Point", coordinates: readPosition(listReader) as unknown as number[][] }
+          }
+          listReader.index++
+          const position = readPosition(listReader)
+          expect(listReader, ")")
+          return { type: "Point", coordinates: position as unknown as number[][] }
+        }),
+      )
+
+    case "MULTILINESTRING":
+      return createMultiGeometry(
+        readList(reader, (listReader) => ({ type: "LineString", coordinates: readPositions(listReader) })),
+      )
+
+    case "MULTIPOLYGON":
+      return createMultiGeometry(
+        readList(reader, (listReader) => ({
+          type: "Polygon",
+          coordinates: readList(listReader, readPositions) as unknown as number[][],
+        })),
+      )
+
+    case "GEOMETRYCOLLECTION":
+      return createMultiGeometry(readList(reader, readGeometry))
+
+    default:
+      throw new Error(`Unsupported WKT geometry ${type}`)
+  }
+}
+
+function createMultiGeometry(parts: (KmlGeometry | null)[]): KmlGeometry | null {
+  const geometries = parts.filter((part): part is KmlGeometry => part !== null)
+  return geometries.length > 0 ? { type: "MultiGeometry", coordinates: [], geometries } : null
+}
+
+// "( item, item, ... )"
+function readList<T>(reader: TokenReader, readItem: (reader: TokenReader) => T): T[] {
+  expect(reader, "(")
+  const items = [readItem(reader)]
+  while (peek(reader) === ",") {
+    reader.index++
+    items.push(readItem(reader))
+  }
+  expect(reader, ")")
+  return items
+}
+
+// "( x y, x y, ... )"
+function readPositions(reader: TokenReader): number[][] {
+  return readList(reader, readPosition)
+}
+
+// "x y [z [m]]", in the same [lng, lat, alt] layout as KML coordinates
+function readPosition(reader: TokenReader): number[] {
+  const values: number[] = []
+  while (peek(reader) !== undefined && /^[-+.\d]/.test(peek(reader)!)) {
+    values.push(Number.parseFloat(next(reader)))
+  }
+  if (values.length < 2) throw new Error("Position needs at least two numbers")
+  return [values[0], values[1], values.length > 2 && !reader.isMeasured ? values[2] : 0]
+}
@@ -0,0 +1,57 @@
+import { toGeoJsonGeometry } from "./geojson-writer"
+import type { GeoJsonGeometry, KmlGeometry } from "./types"
+
+// Serialize a geometry to WKT, the counterpart of parseWkt
+// Goes through the GeoJSON conversion, so Tracks become lines and MultiGeometry becomes Multi* or GEOMETRYCOLLECTION.
+// Altitudes are written as Z values when any position has one. Returns null for GroundOverlays.
+export function toWkt(geometry: KmlGeometry): string | null {
+  const geoJson = toGeoJsonGeometry(geometry)
+  if (!geoJson) return null
+  return formatGeometry(geoJson, hasAltitude(geoJson))
+}
+
+function formatGeometry(geometry: GeoJsonGeometry, is3d: boolean): string {
+  const type = geometry.type.toUpperCase() + (is3d && geometry.type !== "GeometryCollection" ? " Z" : "")
+  const coordinates = geometry.coordinates
+
+  switch (geometry.type) {
+    case "Point":
+      return `${type} (${formatPosition(coordinates as number[], is3d)})`
+
+    case "LineString":
+    case "MultiPoint":
+      return `${type} ${formatPositions(coordinates as number[][], is3d)}`
+
+    case "Polygon":
+    case "MultiLineString":
+      return `${type} (${(coordinates as number[][][]).map((ring) => formatPositions(ring, is3d)).join(", ")})`
+
+    case "MultiPolygon":
+      return `${type} (${(coordinates as number[][][][])
+        .map((polygon) => `(${polygon.map((ring) => formatPositions(ring, is3d)).join(", ")})`)
+        .join(", ")})`
+
+    case "GeometryCollection":
+      return `${type} (${(geometry.geometries || []).map((part) => formatGeometry(part, is3d)).join(", ")})`
+
+    default:
+      throw new Error(`Unsupported geometry type ${geometry.type}`)
+  }
+}
+
+function formatPositions(positions: number[][], is3d: boolean): string {
+  return `(${positions.map((position) => formatPosition(position, is3d)).join(", ")})`
+}
+
+function formatPosition([lng, lat, alt = 0]: number[], is3d: boolean): string {
+  return is3d ? `${lng} ${lat} ${alt}` : `${lng} ${lat}`
+}
+
+function hasAltitude(geometry: GeoJsonGeometry): boolean {
+  if (geometry.geometries) return geometry.geometries.some(hasAltitude)
+
+  // Positions are the innermost arrays of numbers
+  const hasZ = (value: unknown): boolean =>
+    Array.isArray(value) && (typeof value[0] === "number" ? !!value[2] : value.some(hasZ))
+  return hasZ(geometry.coordinates)
+}
@@ -0,0 +1,296 @@
+import { v4 as uuidv4 } from "uuid"
+import {
+  findDescendant,
+  getChild,
+  getChildText,
+  getTextContent,
+  parseXmlDocument,
+  type XmlElement,
+} from "./xml-stream-parser"
+
+export interface WmsStyle {
+  name: string
+  title: string
+}
+
+// A layer of a WMS service that can be requested, as listed in its capabilities
+export interface WmsLayerInfo {
+  name: string
+  title: string
+  abstract?: string
+  styles: WmsStyle[] // Including the styles inherited from its parent layers
+  queryable: boolean // Answers GetFeatureInfo requests
+}
+
+export interface WmsCapabilities {
+  url: string // Service URL, without WMS request parameters
+  version: string
+  title?: string
+  formats: string[] // Image formats of GetMap
+  infoFormats: string[] // Response formats of GetFeatureInfo
+  layers: WmsLayerInfo[]
+}
+
+// A WMS layer drawn over the base layer, below the data layers
+export interface WmsLayer {
+  id: string
+  url: string // Service URL, without WMS request parameters
+  version: string
+  name: string // Layer name requested from the service
+  title: string
+  style: string // Empty for the default style
+  format: string
+  infoFormat?: string // Set when the layer can be queried with GetFeatureInfo
+  visible: boolean
+  opacity: number // 0-1
+}
+
+// Part of the map image that was clicked, in Web Mercator (EPSG:3857) meters and pixels
+export interface WmsFeatureInfoRequest {
+  bbox: [number, number, number, number] // minX, minY, maxX, maxY
+  width: number
+  height: number
+  x: number
+  y: number
+}
+
+export type WmsFeatureInfo =
+  | { type: "features"; features: Record<string, string>[] }
+  | { type: "html"; html: string }
+  | { type: "text"; text: string }
+
+// Parameters of WMS requests, removed from URLs copied from a request so they can be used as the service URL
+const WMS_PARAMETERS = new Set([
+  "SERVICE",
+  "REQUEST",
+  "VERSION",
+  "LAYERS",
+  "QUERY_LAYERS",
+  "STYLES",
+  "FORMAT",
+  "INFO_FORMAT",
+  "TRANSPARENT",
+  "CRS",
+  "SRS",
+  "BBOX",
+  "WIDTH",
+  "HEIGHT",
+  "I",
+  "J",
+  "X",
+  "Y",
+  "FEATURE_COUNT",
+])
+
+// Formats in order of preference, the first one the service offers is used
+const IMAGE_FORMATS = ["image/png", "image/png8", "image/jpeg"]
+const INFO_FORMATS = ["application/json", "application/geo+json", "text/html", "text/plain"]
+
+const FEATURE_COUNT = 10
+
+// Service URL from a URL typed by the user, which may be a GetCapabilities or GetMap request
+export function getWmsServiceUrl(url: string): string {
+  let serviceUrl: URL
+  try {
+    serviceUrl = new URL(url.trim())
+  } catch {
+    throw new Error("Invalid WMS URL")
+  }
+  if (serviceUrl.protocol !== "http:" && serviceUrl.protocol !== "https:") {
+    throw new Error("The WMS URL must start with http:// or https://")
+  }
+
+  Array.from(serviceUrl.searchParams.keys()).forEach((key) => {
+    if (WMS_PARAMETERS.has(key.toUpperCase())) {
+      serviceUrl.searchParams.delete(key)
+    }
+  })
+  return serviceUrl.toString()
+}
+
+function createRequestUrl(serviceUrl: string, parameters: Record<string, string>): string {
+  const url = new URL(serviceUrl)
+  Object.entries(parameters).forEach(([key, value]) => url.searchParams.set(key, value))
+  return url.toString()
+}
+
+// Services usually don't send CORS headers for errors, so a failed request can't tell why
+async function fetchWms(url: string): Promise<string> {
+  let response: Response
+  try {
+    response = await fetch(url)
+  } catch {
+    throw new Error(
+      "Could not reach the WMS service. Check the URL, and that the server accepts requests from this site (CORS).",
+    )
+  }
+  if (!response.ok) {
+    throw new Error(`The WMS service responded with HTTP ${response.status}`)
+  }
+  return response.text()
+}
+
+function getExceptionMessage(root: XmlElement): string {
+  const exception = findDescendant(root, "ServiceException") ?? findDescendant(root, "ExceptionText")
+  return (exception && getTextContent(exception).trim()) || "unknown error"
+}
+
+export async function fetchWmsCapabilities(url: string): Promise<WmsCapabilities> {
+  const serviceUrl = getWmsServiceUrl(url)
+  const xml = await fetchWms(
+    createRequestUrl(serviceUrl, { SERVICE: "WMS", REQUEST: "GetCapabilities", VERSION: "1.3.0" }),
+  )
+  return parseWmsCapabilities(xml, serviceUrl)
+}
+
+// Read a WMS 1.1.1 or 1.3.0 capabilities document
+export function parseWmsCapabilities(xml: string, serviceUrl: string): WmsCapabilities {
+  const root = parseXmlDocument(xml)
+  if (root && (root.name === "ServiceExceptionReport" || root.name === "ExceptionReport")) {
+    throw new Error(`WMS error: ${getExceptionMessage(root)}`)
+  }
+  if (!root || (root.name !== "WMS_Capabilities" && root.name !== "WMT_MS_Capabilities")) {
+    throw new Error("The response is not a WMS capabilities document")
+  }
+
+  const capability = getChild(root, "Capability")
+  const requests = capability && getChild(capability, "Request")
+  const getFormats = (operation: string) => {
+    const request = requests && getChild(requests, operation)
+    if (!request) return []
+    return request.children
+      .filter((child) => child.name === "Format")
+      .map((child) => getTextContent(child).trim())
+      .filter(Boolean)
+  }
+
+  // Nested layers inherit styles, and queryable unless they set it, only layers with a name can be requested
+  const layers: WmsLayerInfo[] = []
+  const readLayer = (layer: XmlElement, inheritedStyles: WmsStyle[], isParentQueryable: boolean) => {
+    const styles = new Map(inheritedStyles.map((style) => [style.name, style]))
+    layer.children.forEach((child) => {
+      const name = child.name === "Style" ? getChildText(child, "Name") : undefined
+      if (name) {
+        styles.set(name, { name, title: getChildText(child, "Title") ?? name })
+      }
+    })
+    const queryableAttribute = layer.attributes.queryable
+    const queryable =
+      queryableAttribute === undefined ? isParentQueryable : queryableAttribute === "1" || queryableAttribute === "true"
+
+    const name = getChildText(layer, "Name")
+    if (name) {
+      layers.push({
+        name,
+        title: getChildText(layer, "Title") ?? name,
+        abstract: getChildText(layer, "Abstract"),
+        styles: Array.from(styles.values()),
+        queryable,
+      })
+    }
+
+    layer.children
+      .filter((child) => child.name === "Layer")
+      .forEach((child) => readLayer(child, Array.from(styles.values()), queryable))
+  }
+  capability?.children.filter((child) => child.name === "Layer").forEach((layer) => readLayer(layer, [], false))
+
+  if (layers.length === 0) {
+    throw new Error("The WMS service has no layers that can be displayed")
+  }
+
+  const service = getChild(root, "Service")
+  return {
+    url: serviceUrl,
+    version: root.attributes.version || (root.name === "WMS_Capabilities" ? "1.3.0" : "1.1.1"),
+    title: service && getChildText(service, "Title"),
+    formats: getFormats("GetMap"),
+    infoFormats: getFormats("GetFeatureInfo"),
+    layers,
+  }
+}
+
+export function getDefaultImageFormat(formats: string[]): string {
+  return IMAGE_FORMATS.find((format) => formats.includes(format)) ?? formats[0] ?? IMAGE_FORMATS[0]
+}
+
+// Layers to add to the map, in the order of the capabilities
+export function createWmsLayers(
+  capabilities: WmsCapabilities,
+  selectedStyles: Record<string, string>, // Name of each selected layer -> style name, empty for the default style
+  format: string,
+): WmsLayer[] {
+  const infoFormat = INFO_FORMATS.find((candidate) => capabilities.infoFormats.includes(candidate))
+
+  return capabilities.layers
+    .filter((layer) => layer.name in selectedStyles)
+    .map((layer) => ({
+      id: uuidv4(),
+      url: capabilities.url,
+      version: capabilities.version,
+      name: layer.name,
+      title: layer.title,
+      style: selectedStyles[layer.name],
+      format,
+      infoFormat: layer.queryable ? infoFormat : undefined,
+      visible: true,
+      opacity: 1,
+    }))
+}
+
+export function getFeatureInfoUrl(layer: WmsLayer, request: WmsFeatureInfoRequest): string {
+  // 1.3.0 renamed SRS to CRS and the pixel X/Y to I/J
+  const isVersion13 = layer.version.startsWith("1.3")
+
+  return createRequestUrl(layer.url, {
+    SERVICE: "WMS",
+    VERSION: layer.version,
+    REQUEST: "GetFeatureInfo",
+    LAYERS: layer.name,
+    QUERY_LAYERS: layer.name,
+    STYLES: layer.style,
+    [isVersion13 ? "CRS" : "SRS"]: "EPSG:3857",
+    BBOX: request.bbox.join(","),
+    WIDTH: String(request.width),
+    HEIGHT: String(request.height),
+    [isVersion13 ? "I" : "X"]: String(Math.round(request.x)),
+    [isVersion13 ? "J" : "Y"]: String(Math.round(request.y)),
+    INFO_FORMAT: layer.infoFormat ?? "text/plain",
+    FEATURE_COUNT: String(FEATURE_COUNT),
+  })
+}
+
+const formatPropertyValue = (value: unknown) =>
+  value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value)
+
+// What the layer has at the clicked point, or null if nothing was found
+export async function fetchWmsFeatureInfo(
+  layer: WmsLayer,
+  request: WmsFeatureInfoRequest,
+): Promise<WmsFeatureInfo | null> {
+  const text = await fetchWms(getFeatureInfoUrl(layer, request))
+
+  // Errors come back as XML whatever the requested format
+  if (/<(\w+:)?(ServiceExceptionReport|ExceptionReport)\b/.test(text)) {
+    const root = parseXmlDocument(text)
+    throw new Error(`WMS error: ${root ? getExceptionMessage(root) : "unknown error"}`)
+  }
+
+  if (layer.infoFormat?.includes("json")) {
+    const json: { features?: { properties?: Record<string, unknown> }[] } = JSON.parse(text)
+    const features: Record<string, string>[] = (json.features || []).map((feature) =>
+      Object.fromEntries(
+        Object.entries(feature.properties || {}).map(([key, value]) => [key, formatPropertyValue(value)]),
+      ),
+    )
+    return features.length > 0 ? { type: "features", features } : null
+  }
+
+  if (layer.infoFormat === "text/html") {
+    // Services answer with an empty page when nothing was found
+    const bodyText = text.replace(/<(script|style)[\s\S]*?<\/\1>/gi, "").replace(/<[^>]*>/g, "")
+    return bodyText.trim() ? { type: "html", html: text } : null
+  }
+
+  return text.trim() ? { type: "text", text: text.trim() } : null
+}
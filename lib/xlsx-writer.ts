@@ -0,0 +1,122 @@
+import JSZip from "jszip"
+import type { AttributeTable, AttributeValue } from "./attribute-table"
+import { escapeXml } from "./kml-writer"
+
+// Excel refuses longer cell texts
+const MAX_CELL_LENGTH = 32767
+
+// Write a table as a single-sheet XLSX workbook (Office Open XML), with a bold header row
+// Numbers are written as numeric cells and text as inline strings, so no shared string table is needed.
+export async function writeXlsx(table: AttributeTable, sheetName = "Dados"): Promise<Blob> {
+  const zip = new JSZip()
+
+  zip.file(
+    "[Content_Types].xml",
+    xml(
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        "</Types>",
+    ),
+  )
+
+  zip.file(
+    "_rels/.rels",
+    xml(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    ),
+  )
+
+  zip.file(
+    "xl/workbook.xml",
+    xml(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(getSheetName(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>",
+    ),
+  )
+
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    xml(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        "</Relationships>",
+    ),
+  )
+
+  // Style 1 is the bold header
+  zip.file(
+    "xl/styles.xml",
+    xml(
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        "</styleSheet>",
+    ),
+  )
+
+  const rows = [
+    formatRow(table.headers, 1, ' s="1"'),
+    ...table.rows.map((row, index) => formatRow(row, index + 2, "")),
+  ]
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    xml(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        // Keep the header visible while scrolling
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${rows.join("")}</sheetData>` +
+        "</worksheet>",
+    ),
+  )
+
+  return zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  })
+}
+
+function xml(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${content}`
+}
+
+function formatRow(values: AttributeValue[], rowNumber: number, style: string): string {
+  const cells = values.map((value, index) => {
+    const reference = getColumnName(index) + rowNumber
+    if (value === null || value === "") return ""
+    if (typeof value === "number") {
+      return Number.isFinite(value) ? `<c r="${reference}"${style}><v>${value}</v></c>` : ""
+    }
+
+    // Control characters other than tab and line breaks are not allowed in XML
+    const text = value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "").slice(0, MAX_CELL_LENGTH)
+    return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`
+  })
+  return `<row r="${rowNumber}">${cells.join("")}</row>`
+}
+
+// 0 -> "A", 25 -> "Z", 26 -> "AA"
+function getColumnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Sheet names are limited to 31 characters, without []:*?/\
+function getSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Dados"
+}
@@ -0,0 +1,302 @@
+// Streaming (SAX-style) XML tokenizer
+// DOMParser is not available in web workers and needs the whole document in memory, so KML is read with this
+// instead. It is lenient: malformed markup is reported through `onError` and parsing continues.
+
+// Position of a token in the source text (1-based)
+export interface XmlPosition {
+  line: number
+  column: number
+}
+
+export interface XmlStreamHandler {
+  onOpenTag(name: string, attributes: Record<string, string>, position: XmlPosition): void
+  onCloseTag(name: string): void
+  onText(text: string): void
+  onError(message: string, position: XmlPosition): void
+}
+
+// Lightweight element tree built for the parts of a document that need random access
+export interface XmlElement {
+  name: string // Local name, without namespace prefix
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string // Direct text content
+  position?: XmlPosition
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+}
+
+const ATTRIBUTE_REGEX = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+// Strip the namespace prefix ("gx:Track" -> "Track")
+function getLocalName(qualifiedName: string): string {
+  const index = qualifiedName.indexOf(":")
+  return index >= 0 ? qualifiedName.substring(index + 1) : qualifiedName
+}
+
+// Decode XML entities, leaving unknown ones and bare ampersands as they are
+export function decodeXmlEntities(text: string): string {
+  if (!text.includes("&")) return text
+
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1] === "x" || code[1] === "X" ? Number.parseInt(code.substring(2), 16) : Number(code.substring(1))
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+export class XmlStreamParser {
+  private buffer = ""
+  private openTags: string[] = []
+  private line = 1
+  private column = 1
+
+  constructor(private handler: XmlStreamHandler) {}
+
+  // Feed the next chunk of the document
+  write(chunk: string): void {
+    this.buffer += chunk
+    const consumed = this.parseBuffer(false)
+    this.buffer = this.buffer.substring(consumed)
+  }
+
+  // Flush the remaining input and close any element left open
+  close(): void {
+    const consumed = this.parseBuffer(true)
+    const rest = this.buffer.substring(consumed)
+    this.buffer = ""
+
+    if (rest.trim()) {
+      this.handler.onError("Unterminated markup at end of file", this.getPosition())
+    }
+
+    for (let i = this.openTags.length - 1; i >= 0; i--) {
+      this.handler.onError(`Unclosed <${this.openTags[i]}> at end of file`, this.getPosition())
+      this.handler.onCloseTag(this.openTags[i])
+    }
+    this.openTags = []
+  }
+
+  private getPosition(): XmlPosition {
+    return { line: this.line, column: this.column }
+  }
+
+  // Keep line and column in sync with the consumed input
+  private advance(text: string): void {
+    const lastBreak = text.lastIndexOf("\n")
+    if (lastBreak < 0) {
+      this.column += text.length
+      return
+    }
+
+    let breaks = 0
+    for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) breaks++
+    this.line += breaks
+    this.column = text.length - lastBreak
+  }
+
+  // Parse as many complete tokens as possible, returning how much of the buffer was consumed
+  private parseBuffer(isFinal: boolean): number {
+    const buffer = this.buffer
+    let index = 0
+
+    while (index < buffer.length) {
+      const tagStart = buffer.indexOf("<", index)
+
+      // Text is only emitted once the markup after it is reached, so entities are never split
+      if (tagStart < 0) {
+        if (!isFinal) return index
+        this.emitText(buffer.substring(index))
+        return buffer.length
+      }
+
+      if (tagStart > index) {
+        this.emitText(buffer.substring(index, tagStart))
+        index = tagStart
+      }
+
+      const tagEnd = this.findMarkupEnd(buffer, index)
+      if (tagEnd < 0) return index
+
+      this.handleMarkup(buffer.substring(index, tagEnd))
+      index = tagEnd
+    }
+
+    return index
+  }
+
+  // Index just past the end of the markup starting at `start`, or -1 when it is incomplete
+  private findMarkupEnd(buffer: string, start: number): number {
+    if (buffer.startsWith("<!--", start)) {
+      const end = buffer.indexOf("-->", start + 4)
+      return end < 0 ? -1 : end + 3
+    }
+
+    if (buffer.startsWith("<![CDATA[", start)) {
+      const end = buffer.indexOf("]]>", start + 9)
+      return end < 0 ? -1 : end + 3
+    }
+
+    if (buffer.startsWith("<?", start)) {
+      const end = buffer.indexOf("?>", start + 2)
+      return end < 0 ? -1 : end + 2
+    }
+
+    // Tags and declarations end at the first ">" outside quotes (and, for DOCTYPE, outside the internal subset)
+    let quote: string | null = null
+    let bracketDepth = 0
+    for (let i = start + 1; i < buffer.length; i++) {
+      const char = buffer[i]
+      if (quote) {
+        if (char === quote) quote = null
+      } else if (char === '"' || char === "'") {
+        quote = char
+      } else if (char === "[") {
+        bracketDepth++
+      } else if (char === "]") {
+        bracketDepth = Math.max(bracketDepth - 1, 0)
+      } else if (char === ">" && bracketDepth === 0) {
+        return i + 1
+      } else if (char === "<" && bracketDepth === 0 && buffer[start + 1] !== "!") {
+        // A "<" inside a tag means the previous one was never closed, treat it as text
+        return i
+      }
+    }
+    return -1
+  }
+
+  private handleMarkup(markup: string): void {
+    const position = this.getPosition()
+    this.advance(markup)
+
+    if (markup.startsWith("<![CDATA[")) {
+      this.handler.onText(markup.substring(9, markup.length - 3))
+      return
+    }
+
+    // Comments, processing instructions and DOCTYPE declarations carry no data
+    if (markup.startsWith("<!") || markup.startsWith("<?")) {
+      return
+    }
+
+    if (!markup.endsWith(">")) {
+      this.handler.onError("Unterminated tag", position)
+      this.handler.onText(decodeXmlEntities(markup))
+      return
+    }
+
+    if (markup.startsWith("</")) {
+      this.closeTag(getLocalName(markup.substring(2, markup.length - 1).trim()), position)
+      return
+    }
+
+    const isSelfClosing = markup.endsWith("/>")
+    const content = markup.substring(1, markup.length - (isSelfClosing ? 2 : 1))
+    const nameMatch = /^[^\s/>]+/.exec(content)
+    if (!nameMatch) {
+      this.handler.onError("Invalid tag", position)
+      return
+    }
+
+    const name = getLocalName(nameMatch[0])
+    const attributes: Record<string, string> = {}
+    ATTRIBUTE_REGEX.lastIndex = nameMatch[0].length
+    let attribute
+    while ((attribute = ATTRIBUTE_REGEX.exec(content)) !== null) {
+      attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3])
+    }
+
+    this.handler.onOpenTag(name, attributes, position)
+    if (isSelfClosing) {
+      this.handler.onCloseTag(name)
+    } else {
+      this.openTags.push(name)
+    }
+  }
+
+  // Close an element, recovering from missing or stray end tags
+  private closeTag(name: string, position: XmlPosition): void {
+    const index = this.openTags.lastIndexOf(name)
+    if (index < 0) {
+      this.handler.onError(`Unexpected </${name}>`, position)
+      return
+    }
+
+    for (let i = this.openTags.length - 1; i > index; i--) {
+      this.handler.onError(`Unclosed <${this.openTags[i]}>`, position)
+      this.handler.onCloseTag(this.openTags[i])
+    }
+
+    this.openTags.length = index
+    this.handler.onCloseTag(name)
+  }
+
+  private emitText(text: string): void {
+    this.advance(text)
+    this.handler.onText(decodeXmlEntities(text))
+  }
+}
+
+// Find a direct child element by local name
+export function getChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name)
+}
+
+// Full text of an element, including the text of its descendants
+export function getTextContent(element: XmlElement): string {
+  return element.children.length === 0 ? element.text : element.text + element.children.map(getTextContent).join("")
+}
+
+// Trimmed text of a direct child element
+export function getChildText(element: XmlElement, name: string): string | undefined {
+  const child = getChild(element, name)
+  return child ? getTextContent(child).trim() || undefined : undefined
+}
+
+// First descendant matching a path of nested names, like querySelector("A B C")
+export function findDescendant(element: XmlElement, ...path: string[]): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === path[0]) {
+      const match = path.length === 1 ? child : findDescendant(child, ...path.slice(1))
+      if (match) return match
+    }
+    const nested = findDescendant(child, ...path)
+    if (nested) return nested
+  }
+  return undefined
+}
+
+// Element tree of a whole (small) document, e.g. a service response; null if it has no root element
+export function parseXmlDocument(text: string): XmlElement | null {
+  const root: XmlElement = { name: "", attributes: {}, children: [], text: "" }
+  const stack = [root]
+
+  const parser = new XmlStreamParser({
+    onOpenTag(name, attributes, position) {
+      const element: XmlElement = { name, attributes, children: [], text: "", position }
+      stack[stack.length - 1].children.push(element)
+      stack.push(element)
+    },
+    onCloseTag() {
+      if (stack.length > 1) stack.pop()
+    },
+    onText(text) {
+      stack[stack.length - 1].text += text
+    },
+    onError() {
+      // Lenient, like the file parsers: whatever could be read is kept
+    },
+  })
+  parser.write(text)
+  parser.close()
+
+  return root.children[0] ?? null
+}
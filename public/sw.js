@@ -0,0 +1,48 @@
+// Service worker that lets the viewer work without a connection
+// Tiles downloaded for offline use (see lib/offline-tiles.ts) are answered from their cache. The viewer itself is
+// cached as it is used: its pages and assets come from the network when there is one, and from the cache otherwise.
+
+const TILE_CACHE_NAME = "kml-viewer-tiles"
+const APP_CACHE_NAME = "kml-viewer-app"
+
+self.addEventListener("install", () => {
+  self.skipWaiting()
+})
+
+// Take over the open viewer right away, so tiles cached in this visit are used without reloading
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) {
+    // Tiles and other services: the cached tile if there is one
+    event.respondWith(
+      caches
+        .open(TILE_CACHE_NAME)
+        .then((cache) => cache.match(request.url))
+        .then((cached) => cached || fetch(request)),
+    )
+    return
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.status === 200) {
+          const copy = response.clone()
+          caches.open(APP_CACHE_NAME).then((cache) => cache.put(request, copy))
+        }
+        return response
+      })
+      .catch(() =>
+        caches
+          .match(request, { ignoreSearch: request.mode === "navigate" })
+          .then((cached) => cached || Response.error()),
+      ),
+  )
+})